@@ -0,0 +1,111 @@
+/**
+ * Resolution of storage paths in the configuration
+ */
+
+import path from 'path';
+import { QueueConfig } from './types.js';
+
+/**
+ * Default templates directory, relative to the configuration file
+ */
+const DEFAULT_TEMPLATES_DIR = 'templates';
+
+/**
+ * Default Google credentials file, relative to the configuration file
+ */
+const DEFAULT_CREDENTIALS_PATH = 'credentials.json';
+
+/**
+ * Default directory of the dead-letter files of all queues, relative to the configuration file
+ */
+const DEFAULT_DEAD_LETTER_DIR = 'dead-letters';
+
+/**
+ * Default directory of the JSON and CSV data files of all queues, relative to the configuration file
+ */
+const DEFAULT_QUEUE_DIR = 'queues';
+
+/**
+ * Default directory of the lease files of all queues, relative to the configuration file
+ */
+const DEFAULT_LEASE_DIR = 'leases';
+
+/**
+ * Default file recording the last runs of the scheduler, relative to the configuration file
+ */
+const DEFAULT_SCHEDULER_STATE_FILE = 'scheduler-state.json';
+
+/**
+ * Resolve the storage paths of a queue against the directory of the configuration file
+ * @param config The queue configuration
+ * @param queueName Name of the queue, used for per-queue default files
+ * @param baseDir Directory of the configuration file
+ * @returns The queue configuration with absolute paths
+ */
+export function resolveQueuePaths(config: QueueConfig, queueName: string, baseDir: string): QueueConfig {
+  const dataFile = config.dataFile || getDefaultDataFile(config, queueName);
+
+  const resolvedConfig: QueueConfig = {
+    ...config,
+    templatesDir: path.resolve(baseDir, config.templatesDir || DEFAULT_TEMPLATES_DIR),
+    dataFile: dataFile ? path.resolve(baseDir, dataFile) : undefined,
+    leaseFile: path.resolve(baseDir, config.leaseFile || path.join(DEFAULT_LEASE_DIR, `${queueName}.json`)),
+    credentialsPath: path.resolve(baseDir, config.credentialsPath || DEFAULT_CREDENTIALS_PATH)
+  };
+
+  if (config.retry) {
+    const deadLetterFile = config.retry.deadLetterFile || path.join(DEFAULT_DEAD_LETTER_DIR, `${queueName}.json`);
+    resolvedConfig.retry = { ...config.retry, deadLetterFile: path.resolve(baseDir, deadLetterFile) };
+  }
+
+  return resolvedConfig;
+}
+
+/**
+ * Resolve the state file of the scheduler against the directory of the configuration file
+ * @param stateFile The configured state file, if any
+ * @param baseDir Directory of the configuration file
+ * @returns Absolute path of the state file
+ */
+export function resolveSchedulerStateFile(stateFile: string | undefined, baseDir: string): string {
+  return path.resolve(baseDir, stateFile || DEFAULT_SCHEDULER_STATE_FILE);
+}
+
+/**
+ * Turn a template id into the path of its file inside the templates directory
+ * @param templatesDir The templates directory
+ * @param templateId The template id, with or without extension
+ * @param extension The file extension of templates, including the dot
+ * @returns Absolute path of the template file
+ * @throws Error if the template id would point outside the templates directory
+ */
+export function resolveTemplatePath(templatesDir: string, templateId: string, extension: string): string {
+  const filename = templateId.endsWith(extension) ? templateId : `${templateId}${extension}`;
+
+  // Only plain file names are allowed, no separators, no parent directories
+  if (path.basename(filename) !== filename || filename.startsWith('.') || filename.includes('\\')) {
+    throw new Error(`Invalid template id: ${templateId}`);
+  }
+
+  return path.join(templatesDir, filename);
+}
+
+/**
+ * Data file used by loaders that need one when none is configured
+ *
+ * Every queue gets a file of its own, except for SQLite where all queues share one database.
+ */
+function getDefaultDataFile(config: QueueConfig, queueName: string): string | undefined {
+  switch (config.loader) {
+    case 'json':
+      return path.join(DEFAULT_QUEUE_DIR, `${queueName}.json`);
+    case 'csv':
+      return path.join(DEFAULT_QUEUE_DIR, `${queueName}.csv`);
+    case 'sqlite':
+      return 'queue.db';
+    case 'jsonl':
+      return path.join('logs', `${queueName}.jsonl`);
+    default:
+      return undefined;
+  }
+}
\ No newline at end of file
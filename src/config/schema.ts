@@ -3,26 +3,45 @@
  */
 
 import { z } from 'zod';
-import { DebugConfig, QueueMincerConfig } from './types.js';
+import { CronSchedule } from '../scheduler/cron.js';
+import { DebugConfig, FieldSpec, QueueMincerConfig } from './types.js';
 
 // Base tool configuration schema
 const baseToolConfigSchema = z.object({
   alias: z.string().optional(),
   visible: z.boolean().optional().default(true),
-  description: z.string().optional()
+  description: z.string().optional(),
+  queue: z.union([z.string(), z.array(z.string()).nonempty()]).optional()
 });
 
+/**
+ * Allow a tool to be configured once or as a list of instances
+ */
+function toolConfigEntry<T extends z.ZodTypeAny>(schema: T) {
+  return z.union([schema, z.array(schema)]).optional();
+}
+
 // Get tool configuration schema
 const getToolConfigSchema = baseToolConfigSchema.extend({
   directionExposed: z.boolean().optional().default(false),
   default: z.enum(['front', 'back']).optional().default('front'),
-  emptyQueueMessage: z.string().optional()
+  emptyQueueMessage: z.string().optional(),
+  notReadyMessage: z.string().optional(),
+  lease: z.boolean().optional().default(false),
+  claim: z.boolean().optional().default(false),
+  worker: z.string().min(1).optional(),
+  workerExposed: z.boolean().optional().default(false),
+  batchExposed: z.boolean().optional().default(false),
+  maxBatchSize: z.number().int().positive().optional()
 });
 
 // Push tool configuration schema
 const pushToolConfigSchema = baseToolConfigSchema.extend({
   directionExposed: z.boolean().optional().default(true),
-  default: z.enum(['front', 'back']).optional().default('back')
+  default: z.enum(['front', 'back']).optional().default('back'),
+  delayExposed: z.boolean().optional().default(false),
+  batchExposed: z.boolean().optional().default(false),
+  maxBatchSize: z.number().int().positive().optional()
 });
 
 // Load tool configuration schema
@@ -32,19 +51,185 @@ const loadToolConfigSchema = baseToolConfigSchema.extend({
   default: z.enum(['replace', 'front', 'back']).optional().default('replace')
 });
 
+// Ack tool configuration schema
+const ackToolConfigSchema = baseToolConfigSchema;
+
+// Nack tool configuration schema
+const nackToolConfigSchema = baseToolConfigSchema;
+
+// Peek tool configuration schema
+const peekToolConfigSchema = baseToolConfigSchema.extend({
+  directionExposed: z.boolean().optional().default(false),
+  default: z.enum(['front', 'back']).optional().default('front'),
+  countExposed: z.boolean().optional().default(true),
+  defaultCount: z.number().int().positive().optional().default(1),
+  maxCount: z.number().int().positive().optional().default(50)
+});
+
+// List tool configuration schema
+const listToolConfigSchema = baseToolConfigSchema.extend({
+  defaultLimit: z.number().int().positive().optional().default(20),
+  maxLimit: z.number().int().positive().optional().default(100),
+  fieldsExposed: z.boolean().optional().default(true)
+});
+
+// Update tool configuration schema
+const updateToolConfigSchema = baseToolConfigSchema;
+
+// Remove tool configuration schema
+const removeToolConfigSchema = baseToolConfigSchema.extend({
+  filterExposed: z.boolean().optional().default(true),
+  maxRemove: z.number().int().positive().optional().default(100)
+});
+
+// Save tool configuration schema
+const saveToolConfigSchema = baseToolConfigSchema.extend({
+  overwriteExposed: z.boolean().optional().default(false)
+});
+
+// Schedules tool configuration schema
+const schedulesToolConfigSchema = baseToolConfigSchema.extend({
+  defaultCount: z.number().int().positive().optional().default(3),
+  maxCount: z.number().int().positive().optional().default(20)
+});
+
+// Dead letters tool configuration schema
+const deadLettersToolConfigSchema = baseToolConfigSchema.extend({
+  defaultLimit: z.number().int().positive().optional().default(20),
+  maxLimit: z.number().int().positive().optional().default(100)
+});
+
+// Requeue tool configuration schema
+const requeueToolConfigSchema = baseToolConfigSchema;
+
+// Purge tool configuration schema
+const purgeToolConfigSchema = baseToolConfigSchema;
+
+// Blocked tool configuration schema
+const blockedToolConfigSchema = baseToolConfigSchema;
+
+// Assign tool configuration schema
+const assignToolConfigSchema = baseToolConfigSchema;
+
+// Complete tool configuration schema
+const completeToolConfigSchema = baseToolConfigSchema;
+
+// Fail tool configuration schema
+const failToolConfigSchema = baseToolConfigSchema;
+
+// Cancel tool configuration schema
+const cancelToolConfigSchema = baseToolConfigSchema;
+
+// Stats tool configuration schema
+const statsToolConfigSchema = baseToolConfigSchema.extend({
+  resourceExposed: z.boolean().optional().default(true)
+});
+
 // Tools configuration schema
 const toolsConfigSchema = z.object({
-  get: getToolConfigSchema.optional(),
-  push: pushToolConfigSchema.optional(),
-  load: loadToolConfigSchema.optional()
+  get: toolConfigEntry(getToolConfigSchema),
+  push: toolConfigEntry(pushToolConfigSchema),
+  load: toolConfigEntry(loadToolConfigSchema),
+  ack: toolConfigEntry(ackToolConfigSchema),
+  nack: toolConfigEntry(nackToolConfigSchema),
+  peek: toolConfigEntry(peekToolConfigSchema),
+  list: toolConfigEntry(listToolConfigSchema),
+  update: toolConfigEntry(updateToolConfigSchema),
+  remove: toolConfigEntry(removeToolConfigSchema),
+  save: toolConfigEntry(saveToolConfigSchema),
+  schedules: toolConfigEntry(schedulesToolConfigSchema),
+  deadLetters: toolConfigEntry(deadLettersToolConfigSchema),
+  requeue: toolConfigEntry(requeueToolConfigSchema),
+  purge: toolConfigEntry(purgeToolConfigSchema),
+  blocked: toolConfigEntry(blockedToolConfigSchema),
+  assign: toolConfigEntry(assignToolConfigSchema),
+  complete: toolConfigEntry(completeToolConfigSchema),
+  fail: toolConfigEntry(failToolConfigSchema),
+  cancel: toolConfigEntry(cancelToolConfigSchema),
+  stats: toolConfigEntry(statsToolConfigSchema)
 });
 
+// Item id configuration schema
+const itemIdConfigSchema = z.object({
+  field: z.string().min(1).optional().default('id'),
+  strategy: z.enum(['uuid', 'counter']).optional().default('uuid')
+});
+
+// Ordering configuration schema
+const orderingConfigSchema = z.object({
+  mode: z.enum(['fifo', 'lifo', 'priority']).optional().default('fifo'),
+  field: z.string().min(1).optional().default('priority'),
+  order: z.enum(['asc', 'desc']).optional().default('asc')
+});
+
+// Watch configuration schema
+const watchConfigSchema = z.object({
+  conflict: z.enum(['reload', 'merge', 'reject']).optional().default('reload'),
+  debounce: z.number().int().nonnegative().optional().default(100)
+});
+
+// Retry configuration schema
+const retryConfigSchema = z.object({
+  maxAttempts: z.number().int().positive().optional().default(3),
+  backoff: z.number().nonnegative().optional().default(30),
+  backoffFactor: z.number().min(1).optional().default(2),
+  maxBackoff: z.number().nonnegative().optional().default(3600),
+  attemptsField: z.string().min(1).optional().default('attempts'),
+  deadLetterFile: z.string().min(1).optional()
+});
+
+// Lifecycle configuration schema
+const lifecycleConfigSchema = z.object({
+  statusField: z.string().min(1).optional().default('status')
+});
+
+// Profile configuration schema
+const profileConfigSchema = z.object({
+  tools: toolsConfigSchema,
+  tokens: z.array(z.string().min(1)).optional()
+});
+
+// Item field schema, shorthand string or full definition with nested fields
+const fieldSpecSchema: z.ZodType<FieldSpec> = z.lazy(() => z.union([
+  z.string().min(1),
+  z.object({
+    type: z.string().min(1),
+    optional: z.boolean().optional(),
+    description: z.string().optional(),
+    default: z.any().optional(),
+    enum: z.array(z.union([z.string(), z.number(), z.boolean()])).nonempty().optional(),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    format: z.enum(['date', 'datetime', 'email', 'url', 'uuid']).optional(),
+    items: fieldSpecSchema.optional(),
+    properties: z.record(z.string(), fieldSpecSchema).optional()
+  })
+]));
+
 // Queue configuration schema with conditional validation
 const queueConfigSchema = z.object({
-  loader: z.enum(['json', 'csv', 'googleSheet', 'memory']),
+  loader: z.enum(['json', 'jsonl', 'csv', 'googleSheet', 'sqlite', 'memory']),
   inMemory: z.boolean().optional().default(false),
   put: z.boolean().optional(),
-  itemTemplate: z.record(z.string(), z.string()).optional()
+  itemTemplate: z.record(z.string(), fieldSpecSchema).optional(),
+  itemSchema: z.record(z.string(), z.any()).optional(),
+  visibilityTimeout: z.number().positive().optional(),
+  leaseFile: z.string().min(1).optional(),
+  itemId: itemIdConfigSchema.optional(),
+  ordering: orderingConfigSchema.optional(),
+  compactionThreshold: z.number().int().positive().optional(),
+  templatesDir: z.string().min(1).optional(),
+  dataFile: z.string().min(1).optional(),
+  credentialsPath: z.string().min(1).optional(),
+  stateSheet: z.string().min(1).optional(),
+  watch: watchConfigSchema.optional(),
+  flushInterval: z.number().positive().optional(),
+  availableAtField: z.string().min(1).optional(),
+  dependsOnField: z.string().min(1).optional(),
+  assigneeField: z.string().min(1).optional(),
+  claimedAtField: z.string().min(1).optional(),
+  retry: retryConfigSchema.optional(),
+  lifecycle: lifecycleConfigSchema.optional()
 }).refine(data => {
   // If loader is memory, put must be true
   if (data.loader === 'memory' && data.put !== true) {
@@ -53,6 +238,53 @@ const queueConfigSchema = z.object({
   return true;
 }, {
   message: "When loader is 'memory', put must be true"
+}).refine(data => {
+  // Items are described either by a template or by a JSON Schema
+  return data.itemTemplate === undefined || data.itemSchema === undefined;
+}, {
+  message: "Only one of itemTemplate and itemSchema may be configured"
+}).refine(data => {
+  // Only file sources can be edited from outside, and only a queue held in
+  // memory can miss those edits
+  return data.watch === undefined || (data.inMemory && (data.loader === 'json' || data.loader === 'csv'));
+}, {
+  message: "watch requires inMemory with the 'json' or 'csv' loader"
+});
+
+// Server configuration schema
+const serverConfigSchema = z.object({
+  transport: z.enum(['stdio', 'http']).optional().default('stdio'),
+  host: z.string().optional().default('127.0.0.1'),
+  port: z.number().int().positive().optional().default(3000),
+  path: z.string().startsWith('/').optional().default('/mcp'),
+  maxBodySize: z.number().int().positive().optional().default(1024 * 1024)
+});
+
+// Schedule configuration schema
+const scheduleConfigSchema = z.object({
+  cron: z.string().min(1).superRefine((expression, context) => {
+    try {
+      new CronSchedule(expression);
+    } catch (error) {
+      context.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : String(error) });
+    }
+  }),
+  queue: z.string().min(1).optional(),
+  templateId: z.string().min(1).optional(),
+  item: z.record(z.string(), z.any()).optional(),
+  position: z.enum(['front', 'back']).optional().default('back'),
+  catchUp: z.enum(['none', 'once', 'all']).optional().default('once')
+}).refine(data => {
+  // A run adds either a whole template or a single item
+  return (data.templateId === undefined) !== (data.item === undefined);
+}, {
+  message: "Exactly one of templateId and item must be configured"
+});
+
+// Scheduler configuration schema
+const schedulerConfigSchema = z.object({
+  stateFile: z.string().min(1).optional(),
+  schedules: z.record(z.string().min(1), scheduleConfigSchema)
 });
 
 // Debug configuration schema
@@ -64,13 +296,22 @@ const debugConfigSchema = z.object({
 
 // Root QueueMincer configuration schema
 export const queueMincerConfigSchema = z.object({
-  tools: toolsConfigSchema,
-  queue: queueConfigSchema,
+  tools: toolsConfigSchema.optional().default({}),
+  profiles: z.record(z.string().min(1), profileConfigSchema).optional(),
+  queue: queueConfigSchema.optional(),
+  queues: z.record(z.string().min(1), queueConfigSchema).optional(),
+  server: serverConfigSchema.optional(),
+  scheduler: schedulerConfigSchema.optional(),
   debug: debugConfigSchema.optional().default({
     active: false,
     port: 9229,
     break: false
   })
+}).refine(data => {
+  // At least one queue has to be configured
+  return data.queue !== undefined || Object.keys(data.queues || {}).length > 0;
+}, {
+  message: "Either queue or queues must be configured"
 });
 
 /**
@@ -4,31 +4,73 @@
 
 export interface QueueMincerConfig {
   tools: ToolsConfig;
-  queue: QueueConfig;
+  profiles?: Record<string, ProfileConfig>;
+  queue?: QueueConfig;
+  queues?: Record<string, QueueConfig>;
+  server?: ServerConfig;
+  scheduler?: SchedulerConfig;
   debug?: DebugConfig;
 }
 
+/**
+ * A tool can be configured once or as a list of differently bound instances
+ */
+export type ToolConfigEntry<T extends BaseToolConfig> = T | T[];
+
 export interface ToolsConfig {
-  get?: GetToolConfig;
-  push?: PushToolConfig;
-  load?: LoadToolConfig;
+  get?: ToolConfigEntry<GetToolConfig>;
+  push?: ToolConfigEntry<PushToolConfig>;
+  load?: ToolConfigEntry<LoadToolConfig>;
+  ack?: ToolConfigEntry<AckToolConfig>;
+  nack?: ToolConfigEntry<NackToolConfig>;
+  peek?: ToolConfigEntry<PeekToolConfig>;
+  list?: ToolConfigEntry<ListToolConfig>;
+  update?: ToolConfigEntry<UpdateToolConfig>;
+  remove?: ToolConfigEntry<RemoveToolConfig>;
+  save?: ToolConfigEntry<SaveToolConfig>;
+  schedules?: ToolConfigEntry<SchedulesToolConfig>;
+  deadLetters?: ToolConfigEntry<DeadLettersToolConfig>;
+  requeue?: ToolConfigEntry<RequeueToolConfig>;
+  purge?: ToolConfigEntry<PurgeToolConfig>;
+  blocked?: ToolConfigEntry<BlockedToolConfig>;
+  assign?: ToolConfigEntry<AssignToolConfig>;
+  complete?: ToolConfigEntry<CompleteToolConfig>;
+  fail?: ToolConfigEntry<FailToolConfig>;
+  cancel?: ToolConfigEntry<CancelToolConfig>;
+  stats?: ToolConfigEntry<StatsToolConfig>;
+}
+
+export interface ProfileConfig {
+  tools: ToolsConfig;
+  tokens?: string[];
 }
 
 export interface BaseToolConfig {
   alias?: string;
   visible?: boolean;
   description?: string;
+  queue?: string | string[];
 }
 
 export interface GetToolConfig extends BaseToolConfig {
   directionExposed?: boolean;
   default?: 'front' | 'back';
   emptyQueueMessage?: string;
+  notReadyMessage?: string;
+  lease?: boolean;
+  claim?: boolean;
+  worker?: string;
+  workerExposed?: boolean;
+  batchExposed?: boolean;
+  maxBatchSize?: number;
 }
 
 export interface PushToolConfig extends BaseToolConfig {
   directionExposed?: boolean;
   default?: 'front' | 'back';
+  delayExposed?: boolean;
+  batchExposed?: boolean;
+  maxBatchSize?: number;
 }
 
 export interface LoadToolConfig extends BaseToolConfig {
@@ -37,11 +79,175 @@ export interface LoadToolConfig extends BaseToolConfig {
   default?: 'replace' | 'front' | 'back';
 }
 
+export interface AckToolConfig extends BaseToolConfig {}
+
+export interface NackToolConfig extends BaseToolConfig {}
+
+export interface ItemIdConfig {
+  field?: string;
+  strategy?: 'uuid' | 'counter';
+}
+
+export interface PeekToolConfig extends BaseToolConfig {
+  directionExposed?: boolean;
+  default?: 'front' | 'back';
+  countExposed?: boolean;
+  defaultCount?: number;
+  maxCount?: number;
+}
+
+export interface ListToolConfig extends BaseToolConfig {
+  defaultLimit?: number;
+  maxLimit?: number;
+  fieldsExposed?: boolean;
+}
+
+export interface UpdateToolConfig extends BaseToolConfig {}
+
+export interface RemoveToolConfig extends BaseToolConfig {
+  filterExposed?: boolean;
+  maxRemove?: number;
+}
+
+export interface SaveToolConfig extends BaseToolConfig {
+  overwriteExposed?: boolean;
+}
+
+export interface SchedulesToolConfig extends BaseToolConfig {
+  defaultCount?: number;
+  maxCount?: number;
+}
+
+export interface DeadLettersToolConfig extends BaseToolConfig {
+  defaultLimit?: number;
+  maxLimit?: number;
+}
+
+export interface RequeueToolConfig extends BaseToolConfig {}
+
+export interface PurgeToolConfig extends BaseToolConfig {}
+
+export interface BlockedToolConfig extends BaseToolConfig {}
+
+export interface AssignToolConfig extends BaseToolConfig {}
+
+export interface CompleteToolConfig extends BaseToolConfig {}
+
+export interface FailToolConfig extends BaseToolConfig {}
+
+export interface CancelToolConfig extends BaseToolConfig {}
+
+export interface StatsToolConfig extends BaseToolConfig {
+  resourceExposed?: boolean;
+}
+
+export interface WatchConfig {
+  conflict?: 'reload' | 'merge' | 'reject';
+  debounce?: number;
+}
+
+/**
+ * How often a failed item is retried before it moves to the dead-letter queue
+ */
+export interface RetryConfig {
+  maxAttempts?: number;
+  backoff?: number;
+  backoffFactor?: number;
+  maxBackoff?: number;
+  attemptsField?: string;
+  deadLetterFile?: string;
+}
+
+/**
+ * Keeps items stored with a status instead of removing them on get
+ */
+export interface LifecycleConfig {
+  statusField?: string;
+}
+
+export interface OrderingConfig {
+  mode?: 'fifo' | 'lifo' | 'priority';
+  field?: string;
+  order?: 'asc' | 'desc';
+}
+
+/**
+ * A field type in shorthand notation ("string", "number?", "string[]",
+ * "enum:low|high") or as a full definition
+ */
+export type FieldSpec = string | FieldDefinition;
+
+export interface FieldDefinition {
+  type: string;
+  optional?: boolean;
+  description?: string;
+  default?: any;
+  enum?: Array<string | number | boolean>;
+  min?: number;
+  max?: number;
+  format?: 'date' | 'datetime' | 'email' | 'url' | 'uuid';
+  items?: FieldSpec;
+  properties?: Record<string, FieldSpec>;
+}
+
+/**
+ * Fields of a queue item and their types
+ */
+export type ItemTemplate = Record<string, FieldSpec>;
+
+/**
+ * A JSON Schema document describing a queue item
+ */
+export type JsonSchema = Record<string, any>;
+
 export interface QueueConfig {
-  loader: 'json' | 'csv' | 'googleSheet' | 'memory';
+  loader: 'json' | 'jsonl' | 'csv' | 'googleSheet' | 'sqlite' | 'memory';
   inMemory?: boolean;
   put?: boolean;
-  itemTemplate?: Record<string, string>;
+  itemTemplate?: ItemTemplate;
+  itemSchema?: JsonSchema;
+  visibilityTimeout?: number;
+  leaseFile?: string;
+  itemId?: ItemIdConfig;
+  ordering?: OrderingConfig;
+  compactionThreshold?: number;
+  templatesDir?: string;
+  dataFile?: string;
+  credentialsPath?: string;
+  stateSheet?: string;
+  watch?: WatchConfig;
+  flushInterval?: number;
+  availableAtField?: string;
+  dependsOnField?: string;
+  assigneeField?: string;
+  claimedAtField?: string;
+  retry?: RetryConfig;
+  lifecycle?: LifecycleConfig;
+}
+
+export interface ServerConfig {
+  transport?: 'stdio' | 'http';
+  host?: string;
+  port?: number;
+  path?: string;
+  maxBodySize?: number;
+}
+
+/**
+ * A recurring run that adds a template or a single item to a queue
+ */
+export interface ScheduleConfig {
+  cron: string;
+  queue?: string;
+  templateId?: string;
+  item?: Record<string, any>;
+  position?: 'front' | 'back';
+  catchUp?: 'none' | 'once' | 'all';
+}
+
+export interface SchedulerConfig {
+  stateFile?: string;
+  schedules: Record<string, ScheduleConfig>;
 }
 
 export interface DebugConfig {
@@ -53,14 +259,91 @@ export interface DebugConfig {
 // Parameter interfaces for tools
 export interface GetToolParams {
   direction?: 'front' | 'back';
+  worker?: string;
+  count?: number;
 }
 
 export interface PushToolParams {
-  item: Record<string, any>;
+  item?: Record<string, any>;
+  items?: Array<Record<string, any>>;
   direction?: 'front' | 'back';
+  availableAt?: string;
+  delay?: number;
 }
 
 export interface LoadToolParams {
   templateId?: string;
   action?: 'replace' | 'front' | 'back';
-} 
\ No newline at end of file
+}
+
+export interface AckToolParams {
+  leaseToken: string;
+}
+
+export interface NackToolParams {
+  leaseToken: string;
+}
+
+export interface PeekToolParams {
+  direction?: 'front' | 'back';
+  count?: number;
+}
+
+export interface ListToolParams {
+  offset?: number;
+  limit?: number;
+  fields?: string[];
+  status?: Array<'pending' | 'in_progress' | 'done' | 'failed' | 'cancelled'>;
+}
+
+export interface UpdateToolParams {
+  id: string | number;
+  patch: Record<string, any>;
+}
+
+export interface RemoveToolParams {
+  id?: string | number;
+  where?: Record<string, any>;
+  dryRun?: boolean;
+}
+
+export interface SaveToolParams {
+  templateId: string;
+  overwrite?: boolean;
+} 
+
+export interface SchedulesToolParams {
+  count?: number;
+}
+
+export interface DeadLettersToolParams {
+  offset?: number;
+  limit?: number;
+}
+
+export interface RequeueToolParams {
+  ids?: Array<string | number>;
+  all?: boolean;
+}
+
+export interface PurgeToolParams {
+  ids?: Array<string | number>;
+  all?: boolean;
+}
+
+export interface AssignToolParams {
+  id: string | number;
+  worker?: string;
+}
+
+export interface CompleteToolParams {
+  id: string | number;
+}
+
+export interface FailToolParams {
+  id: string | number;
+}
+
+export interface CancelToolParams {
+  id: string | number;
+}
\ No newline at end of file
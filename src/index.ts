@@ -11,10 +11,12 @@ import inspector from 'inspector';
 // Local imports
 import { validateConfig, validateDebugConfig } from './config/schema.js';
 import { QueueMincerConfig } from './config/types.js';
-import { createLoader } from './loaders/index.js';
-import { DefaultQueueManager } from './queue/queue-manager.js';
+import { createQueueRegistry, QueueRegistry } from './queue/queue-registry.js';
 import { createTools } from './tools/index.js';
+import { Scheduler } from './scheduler/scheduler.js';
+import { resolveSchedulerStateFile } from './config/paths.js';
 import { QueueMincerServer } from './server.js';
+import { getProfileConfigs } from './profiles/profile-resolver.js';
 import * as logger from './utils/logger.js';
 
 /**
@@ -36,6 +38,71 @@ function initializeDebugger(debugConfig?: { active?: boolean; port?: number; bre
   }
 }
 
+/**
+ * Stop the server, the scheduler and the queues before the process ends, so
+ * queues held in memory are written back to their sources
+ */
+function handleShutdown(server: QueueMincerServer, scheduler: Scheduler, registry: QueueRegistry, isStdio: boolean) {
+  let isShuttingDown = false;
+  
+  const shutdown = async (reason: string) => {
+    if (isShuttingDown) {
+      return;
+    }
+    isShuttingDown = true;
+    
+    logger.info(`Shutting down: ${reason}`);
+    try {
+      await server.stop();
+    } catch (error) {
+      logger.error('Failed to stop server', error);
+    }
+    await scheduler.stop();
+    await registry.close();
+    process.exit(0);
+  };
+  
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  
+  // An MCP client ends a stdio server by closing its input
+  if (isStdio) {
+    process.stdin.on('close', () => shutdown('stdin closed'));
+  }
+}
+
+/**
+ * Command line arguments
+ */
+interface CommandLineArguments {
+  configPath: string;
+  profile?: string;
+}
+
+/**
+ * Parse the command line: an optional config path and `--profile <name>`
+ */
+function parseArguments(args: string[]): CommandLineArguments {
+  let configPath: string | undefined;
+  let profile: string | undefined;
+  
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--profile') {
+      profile = args[++i];
+    } else if (arg.startsWith('--profile=')) {
+      profile = arg.slice('--profile='.length);
+    } else if (!configPath) {
+      configPath = arg;
+    }
+  }
+  
+  return {
+    configPath: configPath || path.join(process.cwd(), 'config.json'),
+    profile
+  };
+}
+
 /**
  * Load configuration from file
  */
@@ -55,8 +122,8 @@ async function loadConfig(configPath: string): Promise<QueueMincerConfig> {
  */
 const main = async (): Promise<void> => {
   try {
-    // Get configuration file path from command line
-    const configPath = process.argv[2] || path.join(process.cwd(), 'config.json');
+    // Get configuration file path and profile from command line
+    const { configPath, profile } = parseArguments(process.argv.slice(2));
     logger.info(`Loading configuration from ${configPath}`);
     
     // Load and validate configuration
@@ -65,18 +132,22 @@ const main = async (): Promise<void> => {
     // Initialize debugger if configured
     initializeDebugger(config.debug);
     
-    // Create components
-    const loader = createLoader(config.queue);
-    const queueManager = new DefaultQueueManager(config.queue, loader);
-    await queueManager.initialize();
+    // Create components, storage paths are relative to the configuration file
+    const baseDir = path.dirname(path.resolve(configPath));
+    const registry = createQueueRegistry(config, baseDir);
+    await registry.initialize();
     
-    // Create and register tools
-    const tools = createTools(config, queueManager);
+    // Start adding scheduled items, catching up on runs missed while stopped
+    const scheduler = new Scheduler(config.scheduler, registry, resolveSchedulerStateFile(config.scheduler?.stateFile, baseDir));
+    await scheduler.start();
     
-    // Create and start MCP server
-    const server = new QueueMincerServer(config);
-    server.registerTools(tools);
+    // Create and start MCP server with the tools of every profile
+    const server = new QueueMincerServer(config, profile);
+    for (const [name, profileConfig] of Object.entries(getProfileConfigs(config))) {
+      server.registerTools(createTools(profileConfig.tools, registry, scheduler, name), name);
+    }
     await server.start();
+    handleShutdown(server, scheduler, registry, config.server?.transport !== 'http');
   } catch (error) {
     logger.error('Error in QueueMincer', error);
     process.exit(1);
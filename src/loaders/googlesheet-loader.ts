@@ -2,34 +2,39 @@
  * Google Sheet Loader Implementation
  */
 
-import { QueueConfig } from '../config/types.js';
+import { ItemTemplate, QueueConfig } from '../config/types.js';
 import { QueueLoader } from './index.js';
 import * as logger from '../utils/logger.js';
+import { parseCellValue } from '../utils/cell-value.js';
 import fs from 'fs/promises';
 import path from 'path';
 import { google, sheets_v4 } from 'googleapis';
 
 /**
- * Path to credentials file
+ * Default name of the sheet holding the working queue
  */
-const CREDENTIALS_PATH = path.join(process.cwd(), 'credentials.json');
+const DEFAULT_STATE_SHEET = 'Queue';
 
 /**
  * Loader that reads items from Google Sheets
  */
 export class GoogleSheetLoader implements QueueLoader {
   private initialized = false;
-  private itemSchema: Record<string, string> | null = null;
+  private itemSchema: ItemTemplate | null = null;
   private cachedItems: any[] = [];
   private sheets: sheets_v4.Sheets | null = null;
   private spreadsheetId: string | null = null;
   private availableSheets: string[] = [];
-  private activeSheet: string | null = null;
+  private readonly stateSheet: string;
+  private readonly credentialsPath: string;
   
   constructor(private config: QueueConfig) {
     if (config.loader !== 'googleSheet') {
       throw new Error('GoogleSheetLoader requires config.loader to be "googleSheet"');
     }
+    
+    this.credentialsPath = path.resolve(config.credentialsPath || 'credentials.json');
+    this.stateSheet = config.stateSheet || DEFAULT_STATE_SHEET;
   }
   
   /**
@@ -43,14 +48,14 @@ export class GoogleSheetLoader implements QueueLoader {
     try {
       // Check if credentials file exists
       try {
-        await fs.access(CREDENTIALS_PATH);
+        await fs.access(this.credentialsPath);
       } catch {
-        logger.error('Google Sheet credentials file not found. Please create credentials.json in the root directory.');
+        logger.error(`Google Sheet credentials file not found. Please create ${this.credentialsPath} or set queue.credentialsPath.`);
         throw new Error('Google Sheet credentials file not found');
       }
       
       // Load credentials
-      const credentialsContent = await fs.readFile(CREDENTIALS_PATH, 'utf-8');
+      const credentialsContent = await fs.readFile(this.credentialsPath, 'utf-8');
       const credentials = JSON.parse(credentialsContent);
       
       // Extract spreadsheet ID from credentials
@@ -80,20 +85,16 @@ export class GoogleSheetLoader implements QueueLoader {
         logger.debug(`Available sheets: ${this.availableSheets.join(', ')}`);
       }
       
-      // Load first sheet if any exists
-      if (this.availableSheets.length > 0) {
-        const defaultSheet = this.availableSheets[0];
-        this.activeSheet = defaultSheet;
-        const items = await this.loadSheet(defaultSheet);
-        
-        if (items.length > 0 && !this.config.itemTemplate) {
-          this.itemSchema = this.inferSchema(items[0]);
-        }
-        
-        // Cache items if in-memory mode is enabled
-        if (this.config.inMemory) {
-          this.cachedItems = items;
-        }
+      // Load the working queue, seeding it from the first template on first start
+      const items = await this.loadStateSheet();
+      
+      if (items.length > 0 && !this.config.itemTemplate) {
+        this.itemSchema = this.inferSchema(items[0]);
+      }
+      
+      // Cache items if in-memory mode is enabled
+      if (this.config.inMemory) {
+        this.cachedItems = items;
       }
     } catch (error) {
       logger.error('Failed to initialize Google Sheet loader', error);
@@ -117,19 +118,9 @@ export class GoogleSheetLoader implements QueueLoader {
       return [...this.cachedItems];
     }
     
-    // If no active sheet is set, use the first available one
-    if (!this.activeSheet && this.availableSheets.length > 0) {
-      this.activeSheet = this.availableSheets[0];
-    }
-    
-    // If no active sheet is available, return empty array
-    if (!this.activeSheet) {
-      return [];
-    }
-    
-    // Load from active sheet
+    // Load from the state sheet
     try {
-      return await this.loadSheet(this.activeSheet);
+      return await this.loadSheet(this.stateSheet);
     } catch (error) {
       logger.error('Failed to load items from Google Sheet', error);
       return [];
@@ -137,26 +128,16 @@ export class GoogleSheetLoader implements QueueLoader {
   }
   
   /**
-   * Load items from a specific template (sheet name)
+   * Load items from a specific template (sheet name), templates are never modified
    */
   async loadTemplate(templateId: string): Promise<any[]> {
     // Check if the sheet exists
-    if (!this.availableSheets.includes(templateId)) {
+    if (!(await this.hasTemplate(templateId))) {
       throw new Error(`Sheet ${templateId} not found`);
     }
     
-    // Set active sheet
-    this.activeSheet = templateId;
-    
     try {
-      const items = await this.loadSheet(templateId);
-      
-      // Update cached items if in-memory mode is enabled
-      if (this.config.inMemory) {
-        this.cachedItems = items;
-      }
-      
-      return items;
+      return await this.loadSheet(templateId);
     } catch (error) {
       logger.error(`Failed to load template: ${templateId}`, error);
       throw new Error(`Failed to load template: ${templateId}`);
@@ -167,13 +148,14 @@ export class GoogleSheetLoader implements QueueLoader {
    * Check if a template (sheet) exists
    */
   async hasTemplate(templateId: string): Promise<boolean> {
-    return this.availableSheets.includes(templateId);
+    // The state sheet holds the working queue and is not a template
+    return templateId !== this.stateSheet && this.availableSheets.includes(templateId);
   }
   
   /**
    * Get the item schema
    */
-  getItemSchema(): Record<string, string> | null {
+  getItemSchema(): ItemTemplate | null {
     return this.itemSchema;
   }
   
@@ -181,25 +163,45 @@ export class GoogleSheetLoader implements QueueLoader {
    * Save the complete list of items to the source
    */
   async saveItems(items: any[]): Promise<void> {
-    // If in-memory mode, just update the cache
+    // Keep the cache in line, the sheet is written in both modes so a queue
+    // held in memory can be flushed
     if (this.config.inMemory) {
       this.cachedItems = [...items];
-      return;
     }
     
-    // If no active sheet is set, use the first available one or create a new one
-    if (!this.activeSheet) {
-      if (this.availableSheets.length > 0) {
-        this.activeSheet = this.availableSheets[0];
-      } else {
-        this.activeSheet = 'Sheet1';
-        await this.createSheet(this.activeSheet);
-      }
+    // Write to the state sheet
+    await this.writeSheet(this.stateSheet, items);
+    logger.debug(`Saved ${items.length} items to Google Sheet: ${this.stateSheet}`);
+  }
+  
+  /**
+   * Save items as a template sheet, creating the sheet if needed
+   */
+  async saveTemplate(templateId: string, items: any[]): Promise<void> {
+    if (templateId === this.stateSheet) {
+      throw new Error(`Sheet ${templateId} holds the working queue and cannot be a template`);
     }
     
-    // Write to the active sheet
-    await this.writeSheet(this.activeSheet, items);
-    logger.debug(`Saved ${items.length} items to Google Sheet: ${this.activeSheet}`);
+    if (!this.availableSheets.includes(templateId)) {
+      await this.createSheet(templateId);
+    }
+    
+    await this.writeSheet(templateId, items);
+    logger.info(`Saved ${items.length} items as template sheet ${templateId}`);
+  }
+  
+  /**
+   * Run a read-modify-write cycle, the spreadsheet offers no locking
+   */
+  async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    return task();
+  }
+  
+  /**
+   * Release the source, the spreadsheet is reached through stateless requests
+   */
+  async close(): Promise<void> {
+    // Nothing to release
   }
   
   /**
@@ -234,6 +236,66 @@ export class GoogleSheetLoader implements QueueLoader {
     await this.saveItems(items);
   }
   
+  /**
+   * Add several items to the source at the front in one write, keeping their order
+   */
+  async addItemsFront(items: any[]): Promise<void> {
+    // If in-memory mode, just update the cache
+    if (this.config.inMemory) {
+      this.cachedItems.unshift(...items);
+      return;
+    }
+    
+    // Otherwise, load all items, add the new ones, and save back
+    const currentItems = await this.getItems();
+    await this.saveItems([...items, ...currentItems]);
+  }
+  
+  /**
+   * Add several items to the source at the back in one write
+   */
+  async addItemsBack(items: any[]): Promise<void> {
+    // If in-memory mode, just update the cache
+    if (this.config.inMemory) {
+      this.cachedItems.push(...items);
+      return;
+    }
+    
+    // Otherwise, load all items, add the new ones, and save back
+    const currentItems = await this.getItems();
+    await this.saveItems([...currentItems, ...items]);
+  }
+  
+  /**
+   * Insert a single item into the source at the given index
+   */
+  async insertItemAt(index: number, item: any): Promise<void> {
+    // If in-memory mode, just update the cache
+    if (this.config.inMemory) {
+      this.cachedItems.splice(index, 0, item);
+      return;
+    }
+    
+    // Otherwise, load all items, insert the new one, and save back
+    const items = await this.getItems();
+    items.splice(index, 0, item);
+    await this.saveItems(items);
+  }
+  
+  /**
+   * Replace the item at the given index in the source
+   */
+  async replaceItemAt(index: number, item: any): Promise<void> {
+    // If in-memory mode, just update the cache
+    if (this.config.inMemory) {
+      this.cachedItems[index] = item;
+      return;
+    }
+    
+    // Otherwise, overwrite the single row of the item in the state sheet
+    await this.writeRow(this.stateSheet, index, item);
+  }
+  
   /**
    * Remove and return an item from the front of the source
    */
@@ -280,6 +342,68 @@ export class GoogleSheetLoader implements QueueLoader {
     return item;
   }
   
+  /**
+   * Remove and return up to count items from the front of the source in one write
+   */
+  async removeItemsFront(count: number): Promise<any[]> {
+    // If in-memory mode, operate on the cache
+    if (this.config.inMemory) {
+      return this.cachedItems.splice(0, count);
+    }
+    
+    // Otherwise, load all items, remove the first ones, and save back
+    const items = await this.getItems();
+    const removedItems = items.splice(0, count);
+    if (removedItems.length > 0) {
+      await this.saveItems(items);
+    }
+    return removedItems;
+  }
+  
+  /**
+   * Remove and return up to count items from the back of the source in one write, the last item first
+   */
+  async removeItemsBack(count: number): Promise<any[]> {
+    // If in-memory mode, operate on the cache
+    if (this.config.inMemory) {
+      return this.cachedItems.splice(Math.max(this.cachedItems.length - count, 0)).reverse();
+    }
+    
+    // Otherwise, load all items, remove the last ones, and save back
+    const items = await this.getItems();
+    const removedItems = items.splice(Math.max(items.length - count, 0)).reverse();
+    if (removedItems.length > 0) {
+      await this.saveItems(items);
+    }
+    return removedItems;
+  }
+  
+  /**
+   * Read up to count items from the front or back without removing them
+   */
+  async peekItems(direction: 'front' | 'back', count: number): Promise<any[]> {
+    const items = await this.getItems();
+    return direction === 'front'
+      ? items.slice(0, count)
+      : items.slice(-count).reverse();
+  }
+  
+  /**
+   * Read a page of items without removing them
+   */
+  async listItems(offset: number, limit: number): Promise<any[]> {
+    const items = await this.getItems();
+    return items.slice(offset, offset + limit);
+  }
+  
+  /**
+   * Count the items in the source
+   */
+  async countItems(): Promise<number> {
+    const items = await this.getItems();
+    return items.length;
+  }
+  
   /**
    * Get authentication for Google Sheets API
    */
@@ -305,6 +429,24 @@ export class GoogleSheetLoader implements QueueLoader {
     throw new Error('Invalid credentials format. Please provide apiKey or client_email/private_key');
   }
   
+  /**
+   * Load the state sheet, creating it from the first template sheet if it does not exist yet
+   */
+  private async loadStateSheet(): Promise<any[]> {
+    if (this.availableSheets.includes(this.stateSheet)) {
+      return await this.loadSheet(this.stateSheet);
+    }
+    
+    const templateSheet = this.availableSheets.find(sheet => sheet !== this.stateSheet);
+    const items = templateSheet ? await this.loadSheet(templateSheet) : [];
+    
+    await this.createSheet(this.stateSheet);
+    await this.writeSheet(this.stateSheet, items);
+    logger.info(`Created state sheet ${this.stateSheet} with ${items.length} items`);
+    
+    return items;
+  }
+  
   /**
    * Load data from a specific sheet
    */
@@ -314,10 +456,13 @@ export class GoogleSheetLoader implements QueueLoader {
     }
     
     try {
-      // Get sheet data
+      // Get sheet data, numbers and booleans as typed values rather than as
+      // displayed, dates entered by hand as text
       const response = await this.sheets.spreadsheets.values.get({
         spreadsheetId: this.spreadsheetId,
-        range: sheetName
+        range: sheetName,
+        valueRenderOption: 'UNFORMATTED_VALUE',
+        dateTimeRenderOption: 'FORMATTED_STRING'
       });
       
       const rows = response.data.values;
@@ -336,22 +481,8 @@ export class GoogleSheetLoader implements QueueLoader {
         // Map each column to its header
         headers.forEach((header, index) => {
           if (index < row.length) {
-            // Convert values to appropriate types
-            let value = row[index];
-            
-            // Try to convert to number
-            if (/^-?\d+(\.\d+)?$/.test(value)) {
-              value = parseFloat(value);
-            }
-            // Try to convert to boolean
-            else if (value.toLowerCase() === 'true') {
-              value = true;
-            }
-            else if (value.toLowerCase() === 'false') {
-              value = false;
-            }
-            
-            item[header] = value;
+            // Convert values to appropriate types, arrays and objects are stored as JSON
+            item[header] = parseCellValue(row[index]);
           } else {
             // If value is missing, set as null
             item[header] = null;
@@ -422,26 +553,16 @@ export class GoogleSheetLoader implements QueueLoader {
         return;
       }
       
-      // Extract headers from the first object
-      const headers = Object.keys(data[0]);
+      // Collect headers from all objects so no field (such as the id) is dropped
+      const headers = this.collectHeaders(data);
       
       // Prepare rows (starting with headers)
-      const rows = [headers];
+      const rows: Array<Array<string | number | boolean>> = [headers];
       
       // Add data rows
       for (const item of data) {
-        const row = headers.map(header => {
-          const value = item[header];
-          
-          // Convert values to string for sheets
-          if (value === null || value === undefined) {
-            return '';
-          } else if (typeof value === 'object') {
-            return JSON.stringify(value);
-          } else {
-            return String(value);
-          }
-        });
+        // Convert values to cell values for sheets
+        const row = headers.map(header => this.toCellValue(item[header]));
         
         rows.push(row);
       }
@@ -463,6 +584,81 @@ export class GoogleSheetLoader implements QueueLoader {
     }
   }
   
+  /**
+   * Write a single item into its row, rewriting the sheet only if the item
+   * has fields without a column
+   */
+  private async writeRow(sheetName: string, index: number, item: any): Promise<void> {
+    if (!this.sheets || !this.spreadsheetId) {
+      throw new Error('Google Sheets API not initialized');
+    }
+    
+    let headers: string[];
+    try {
+      const response = await this.sheets.spreadsheets.values.get({
+        spreadsheetId: this.spreadsheetId,
+        range: `${sheetName}!1:1`
+      });
+      headers = response.data.values?.[0] || [];
+    } catch (error) {
+      logger.error(`Failed to read headers of sheet: ${sheetName}`, error);
+      throw new Error(`Failed to read headers of sheet: ${sheetName}`);
+    }
+    
+    // New fields need a new column, which means writing the whole sheet
+    if (Object.keys(item).some(key => !headers.includes(key))) {
+      const items = await this.loadSheet(sheetName);
+      items[index] = item;
+      await this.writeSheet(sheetName, items);
+      return;
+    }
+    
+    try {
+      // Row 1 holds the headers, so item 0 lives in row 2
+      await this.sheets.spreadsheets.values.update({
+        spreadsheetId: this.spreadsheetId,
+        range: `${sheetName}!A${index + 2}`,
+        valueInputOption: 'RAW',
+        requestBody: {
+          values: [headers.map(header => this.toCellValue(item[header]))]
+        }
+      });
+      
+      logger.debug(`Updated row ${index + 2} of sheet: ${sheetName}`);
+    } catch (error) {
+      logger.error(`Failed to write row of sheet: ${sheetName}`, error);
+      throw new Error(`Failed to write row of sheet: ${sheetName}`);
+    }
+  }
+  
+  /**
+   * Convert a value to its cell representation, numbers and booleans keep their type
+   */
+  private toCellValue(value: any): string | number | boolean {
+    if (value === null || value === undefined) {
+      return '';
+    } else if (typeof value === 'object') {
+      return JSON.stringify(value);
+    } else if (typeof value === 'number' || typeof value === 'boolean') {
+      return value;
+    } else {
+      return String(value);
+    }
+  }
+  
+  /**
+   * Collect the union of keys of all items, in order of first appearance
+   */
+  private collectHeaders(data: any[]): string[] {
+    const headers = new Set<string>();
+    
+    for (const item of data) {
+      Object.keys(item).forEach(key => headers.add(key));
+    }
+    
+    return [...headers];
+  }
+  
   /**
    * Infer schema from an item
    */
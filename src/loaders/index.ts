@@ -2,12 +2,14 @@
  * Queue Loader - Interface and factory for different loader types
  */
 
-import { QueueConfig } from '../config/types.js';
+import { ItemTemplate, QueueConfig } from '../config/types.js';
 import * as logger from '../utils/logger.js';
 import { MemoryLoader } from './memory-loader.js';
 import { JsonLoader } from './json-loader.js';
+import { JsonlLoader } from './jsonl-loader.js';
 import { CsvLoader } from './csv-loader.js';
 import { GoogleSheetLoader } from './googlesheet-loader.js';
+import { SqliteLoader } from './sqlite-loader.js';
 
 /**
  * Common interface for all queue loaders
@@ -33,10 +35,33 @@ export interface QueueLoader {
    */
   hasTemplate(templateId: string): Promise<boolean>;
   
+  /**
+   * Store items as a template, replacing a template of the same id
+   */
+  saveTemplate(templateId: string, items: any[]): Promise<void>;
+  
+  /**
+   * Run a read-modify-write cycle spanning several calls without interference
+   * from other processes sharing the source
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T>;
+  
+  /**
+   * Release what the loader holds open, such as files or database connections
+   */
+  close(): Promise<void>;
+  
+  /**
+   * Watch the source for changes made by others and report the new items,
+   * only offered by file-based loaders
+   * @returns A function that stops watching
+   */
+  watch?(onChange: (items: any[]) => Promise<void>): Promise<() => void>;
+  
   /**
    * Get the item schema if available
    */
-  getItemSchema(): Record<string, string> | null;
+  getItemSchema(): ItemTemplate | null;
   
   /**
    * Save the complete list of items to the source
@@ -53,6 +78,26 @@ export interface QueueLoader {
    */
   addItemBack(item: any): Promise<void>;
   
+  /**
+   * Add several items to the source at the front in one write, keeping their order
+   */
+  addItemsFront(items: any[]): Promise<void>;
+  
+  /**
+   * Add several items to the source at the back in one write
+   */
+  addItemsBack(items: any[]): Promise<void>;
+  
+  /**
+   * Insert a single item into the source at the given index
+   */
+  insertItemAt(index: number, item: any): Promise<void>;
+  
+  /**
+   * Replace the item at the given index in the source
+   */
+  replaceItemAt(index: number, item: any): Promise<void>;
+  
   /**
    * Remove and return an item from the front of the source
    */
@@ -62,23 +107,54 @@ export interface QueueLoader {
    * Remove and return an item from the back of the source
    */
   removeItemBack(): Promise<any | null>;
+  
+  /**
+   * Remove and return up to count items from the front of the source in one write
+   */
+  removeItemsFront(count: number): Promise<any[]>;
+  
+  /**
+   * Remove and return up to count items from the back of the source in one
+   * write, the last item first
+   */
+  removeItemsBack(count: number): Promise<any[]>;
+  
+  /**
+   * Read up to count items from the front or back without removing them
+   */
+  peekItems(direction: 'front' | 'back', count: number): Promise<any[]>;
+  
+  /**
+   * Read a page of items without removing them
+   */
+  listItems(offset: number, limit: number): Promise<any[]>;
+  
+  /**
+   * Count the items in the source
+   */
+  countItems(): Promise<number>;
 }
 
 /**
  * Creates the appropriate loader based on configuration
  * @param config The queue configuration
+ * @param queueName Name of the queue, used by loaders that hold several queues in one store
  * @returns A QueueLoader instance
  */
-export function createLoader(config: QueueConfig): QueueLoader {
+export function createLoader(config: QueueConfig, queueName: string): QueueLoader {
   switch (config.loader) {
     case 'memory':
       return new MemoryLoader(config);
     case 'json':
       return new JsonLoader(config);
+    case 'jsonl':
+      return new JsonlLoader(config, queueName);
     case 'csv':
       return new CsvLoader(config);
     case 'googleSheet':
       return new GoogleSheetLoader(config);
+    case 'sqlite':
+      return new SqliteLoader(config, queueName);
     default:
       // This should never happen due to TypeScript, but as a fallback:
       logger.error(`Unknown loader type: ${config.loader}`);
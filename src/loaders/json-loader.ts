@@ -2,30 +2,41 @@
  * JSON Loader Implementation
  */
 
-import { QueueConfig } from '../config/types.js';
+import { ItemTemplate, QueueConfig } from '../config/types.js';
 import { QueueLoader } from './index.js';
+import { resolveTemplatePath } from '../config/paths.js';
+import { FileLock } from '../utils/file-lock.js';
+import { writeFileAtomic } from '../utils/atomic-file.js';
 import * as logger from '../utils/logger.js';
 import fs from 'fs/promises';
 import path from 'path';
+import { watch } from 'fs';
 
 /**
- * Path to templates directory
+ * Default delay in milliseconds before a change to the data file is read
  */
-const TEMPLATES_DIR = path.join(process.cwd(), 'templates');
+const DEFAULT_WATCH_DEBOUNCE = 100;
 
 /**
  * Loader that reads items from JSON files
  */
 export class JsonLoader implements QueueLoader {
   private initialized = false;
-  private itemSchema: Record<string, string> | null = null;
+  private itemSchema: ItemTemplate | null = null;
   private cachedItems: any[] = [];
-  private activeFile: string | null = null;
+  private readonly templatesDir: string;
+  private readonly dataFile: string;
+  private readonly lock: FileLock;
+  private lastContent: string | null = null;
   
   constructor(private config: QueueConfig) {
     if (config.loader !== 'json') {
       throw new Error('JsonLoader requires config.loader to be "json"');
     }
+    
+    this.templatesDir = path.resolve(config.templatesDir || 'templates');
+    this.dataFile = path.resolve(config.dataFile || 'queue.json');
+    this.lock = new FileLock(`${this.dataFile}.lock`);
   }
   
   /**
@@ -38,33 +49,29 @@ export class JsonLoader implements QueueLoader {
     
     // Ensure templates directory exists
     try {
-      await fs.mkdir(TEMPLATES_DIR, { recursive: true });
+      await fs.mkdir(this.templatesDir, { recursive: true });
     } catch (error) {
       logger.error('Failed to create templates directory', error);
       throw new Error('Failed to create templates directory');
     }
     
-    // Load default template to infer schema if needed
+    // The lock file is created next to the data file
+    await fs.mkdir(path.dirname(this.dataFile), { recursive: true });
+    
+    // Load the working queue to infer schema if needed
     try {
-      const files = await fs.readdir(TEMPLATES_DIR);
-      const jsonFiles = files.filter(file => file.endsWith('.json'));
+      const items = await this.lock.runExclusive(() => this.loadDataFile());
+      
+      if (items.length > 0 && !this.config.itemTemplate) {
+        this.itemSchema = this.inferSchema(items[0]);
+      }
       
-      if (jsonFiles.length > 0) {
-        const defaultFile = jsonFiles[0];
-        this.activeFile = defaultFile;
-        const items = await this.loadJsonFile(defaultFile);
-        
-        if (items.length > 0 && !this.config.itemTemplate) {
-          this.itemSchema = this.inferSchema(items[0]);
-        }
-        
-        // Cache items if in-memory mode is enabled
-        if (this.config.inMemory) {
-          this.cachedItems = items;
-        }
+      // Cache items if in-memory mode is enabled
+      if (this.config.inMemory) {
+        this.cachedItems = items;
       }
     } catch (error) {
-      logger.warn('Could not load default template', error);
+      logger.warn('Could not load initial items', error);
     }
     
     // Use configured schema if provided
@@ -84,43 +91,17 @@ export class JsonLoader implements QueueLoader {
       return [...this.cachedItems];
     }
     
-    // If no active file, load from the first available JSON file
-    if (!this.activeFile) {
-      try {
-        const files = await fs.readdir(TEMPLATES_DIR);
-        const jsonFiles = files.filter(file => file.endsWith('.json'));
-        
-        if (jsonFiles.length > 0) {
-          this.activeFile = jsonFiles[0];
-          return await this.loadJsonFile(jsonFiles[0]);
-        }
-      } catch (error) {
-        logger.error('Failed to load items', error);
-      }
-      
-      return [];
-    }
-    
-    // Load from active file
-    return await this.loadJsonFile(this.activeFile);
+    return await this.loadJsonFile(this.dataFile);
   }
   
   /**
-   * Load items from a specific template
+   * Load items from a specific template, templates are never modified
    */
   async loadTemplate(templateId: string): Promise<any[]> {
-    const filename = this.getFilenameFromTemplateId(templateId);
-    this.activeFile = filename;
+    const filepath = this.getTemplatePath(templateId);
     
     try {
-      const items = await this.loadJsonFile(filename);
-      
-      // Update cached items if in-memory mode is enabled
-      if (this.config.inMemory) {
-        this.cachedItems = items;
-      }
-      
-      return items;
+      return await this.loadJsonFile(filepath);
     } catch (error) {
       logger.error(`Failed to load template: ${templateId}`, error);
       throw new Error(`Failed to load template: ${templateId}`);
@@ -131,8 +112,7 @@ export class JsonLoader implements QueueLoader {
    * Check if a template exists
    */
   async hasTemplate(templateId: string): Promise<boolean> {
-    const filename = this.getFilenameFromTemplateId(templateId);
-    const filepath = path.join(TEMPLATES_DIR, filename);
+    const filepath = this.getTemplatePath(templateId);
     
     try {
       await fs.access(filepath);
@@ -145,7 +125,7 @@ export class JsonLoader implements QueueLoader {
   /**
    * Get the item schema
    */
-  getItemSchema(): Record<string, string> | null {
+  getItemSchema(): ItemTemplate | null {
     return this.itemSchema;
   }
   
@@ -153,20 +133,78 @@ export class JsonLoader implements QueueLoader {
    * Save the complete list of items to the source
    */
   async saveItems(items: any[]): Promise<void> {
-    // If we're working with in-memory mode, just update the cache
+    // Keep the cache in line, the data file is written in both modes so a
+    // queue held in memory can be flushed
     if (this.config.inMemory) {
       this.cachedItems = [...items];
-      return;
     }
     
-    // If no active file, create one
-    if (!this.activeFile) {
-      this.activeFile = 'queue.json';
-    }
+    // Save to the data file
+    await this.lock.runExclusive(() => this.saveJsonFile(this.dataFile, items));
+    logger.debug(`Saved ${items.length} items to ${this.dataFile}`);
+  }
+  
+  /**
+   * Save items as a new template file
+   */
+  async saveTemplate(templateId: string, items: any[]): Promise<void> {
+    const filepath = this.getTemplatePath(templateId);
+    await this.saveJsonFile(filepath, items);
+    logger.info(`Saved ${items.length} items as template ${templateId}`);
+  }
+  
+  /**
+   * Run a read-modify-write cycle while holding the lock of the data file
+   */
+  async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    return this.config.inMemory ? task() : this.lock.runExclusive(task);
+  }
+  
+  /**
+   * Release the source, files are only open while they are read or written
+   */
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+  
+  /**
+   * Watch the data file for edits made outside this process
+   */
+  async watch(onChange: (items: any[]) => Promise<void>): Promise<() => void> {
+    const filename = path.basename(this.dataFile);
+    const debounce = this.config.watch?.debounce ?? DEFAULT_WATCH_DEBOUNCE;
+    let timer: NodeJS.Timeout | null = null;
+    
+    // Remember the current content so only later edits are reported
+    this.lastContent = await fs.readFile(this.dataFile, 'utf-8');
+    
+    // Editors often replace the file instead of writing into it, so the
+    // directory is watched rather than the file itself
+    const watcher = watch(path.dirname(this.dataFile), (_event, changed) => {
+      if (changed !== filename) {
+        return;
+      }
+      
+      if (timer) {
+        clearTimeout(timer);
+      }
+      
+      timer = setTimeout(() => {
+        timer = null;
+        this.readExternalChange()
+          .then(items => items ? onChange(items) : undefined)
+          .catch(error => logger.warn(`Failed to apply external change to ${this.dataFile}`, error));
+      }, debounce);
+    });
+    
+    logger.info(`Watching ${this.dataFile} for external changes`);
     
-    // Save to the active file
-    await this.saveJsonFile(this.activeFile, items);
-    logger.debug(`Saved ${items.length} items to ${this.activeFile}`);
+    return () => {
+      if (timer) {
+        clearTimeout(timer);
+      }
+      watcher.close();
+    };
   }
   
   /**
@@ -179,10 +217,12 @@ export class JsonLoader implements QueueLoader {
       return;
     }
     
-    // Otherwise, load all items, add the new one, and save back
-    const items = await this.getItems();
-    items.unshift(item);
-    await this.saveItems(items);
+    // Otherwise, load all items, add the new one, and save back while holding the file lock
+    return this.lock.runExclusive(async () => {
+      const items = await this.getItems();
+      items.unshift(item);
+      await this.saveItems(items);
+    });
   }
   
   /**
@@ -195,10 +235,82 @@ export class JsonLoader implements QueueLoader {
       return;
     }
     
-    // Otherwise, load all items, add the new one, and save back
-    const items = await this.getItems();
-    items.push(item);
-    await this.saveItems(items);
+    // Otherwise, load all items, add the new one, and save back while holding the file lock
+    return this.lock.runExclusive(async () => {
+      const items = await this.getItems();
+      items.push(item);
+      await this.saveItems(items);
+    });
+  }
+  
+  /**
+   * Add several items to the source at the front in one write, keeping their order
+   */
+  async addItemsFront(items: any[]): Promise<void> {
+    // If working in-memory, delegate to memory operations
+    if (this.config.inMemory) {
+      this.cachedItems.unshift(...items);
+      return;
+    }
+    
+    // Otherwise, load all items, add the new ones, and save back while holding the file lock
+    return this.lock.runExclusive(async () => {
+      const currentItems = await this.getItems();
+      await this.saveItems([...items, ...currentItems]);
+    });
+  }
+  
+  /**
+   * Add several items to the source at the back in one write
+   */
+  async addItemsBack(items: any[]): Promise<void> {
+    // If working in-memory, delegate to memory operations
+    if (this.config.inMemory) {
+      this.cachedItems.push(...items);
+      return;
+    }
+    
+    // Otherwise, load all items, add the new ones, and save back while holding the file lock
+    return this.lock.runExclusive(async () => {
+      const currentItems = await this.getItems();
+      await this.saveItems([...currentItems, ...items]);
+    });
+  }
+  
+  /**
+   * Insert a single item into the source at the given index
+   */
+  async insertItemAt(index: number, item: any): Promise<void> {
+    // If working in-memory, delegate to memory operations
+    if (this.config.inMemory) {
+      this.cachedItems.splice(index, 0, item);
+      return;
+    }
+    
+    // Otherwise, load all items, insert the new one, and save back while holding the file lock
+    return this.lock.runExclusive(async () => {
+      const items = await this.getItems();
+      items.splice(index, 0, item);
+      await this.saveItems(items);
+    });
+  }
+  
+  /**
+   * Replace the item at the given index in the source
+   */
+  async replaceItemAt(index: number, item: any): Promise<void> {
+    // If working in-memory, delegate to memory operations
+    if (this.config.inMemory) {
+      this.cachedItems[index] = item;
+      return;
+    }
+    
+    // Otherwise, load all items, replace the item, and save back while holding the file lock
+    return this.lock.runExclusive(async () => {
+      const items = await this.getItems();
+      items[index] = item;
+      await this.saveItems(items);
+    });
   }
   
   /**
@@ -213,15 +325,17 @@ export class JsonLoader implements QueueLoader {
       return this.cachedItems.shift() || null;
     }
     
-    // Otherwise, load all items, remove the first one, and save back
-    const items = await this.getItems();
-    if (items.length === 0) {
-      return null;
-    }
-    
-    const item = items.shift();
-    await this.saveItems(items);
-    return item;
+    // Otherwise, load all items, remove the first one, and save back while holding the file lock
+    return this.lock.runExclusive(async () => {
+      const items = await this.getItems();
+      if (items.length === 0) {
+        return null;
+      }
+      
+      const item = items.shift();
+      await this.saveItems(items);
+      return item;
+    });
   }
   
   /**
@@ -236,50 +350,124 @@ export class JsonLoader implements QueueLoader {
       return this.cachedItems.pop() || null;
     }
     
-    // Otherwise, load all items, remove the last one, and save back
-    const items = await this.getItems();
-    if (items.length === 0) {
-      return null;
+    // Otherwise, load all items, remove the last one, and save back while holding the file lock
+    return this.lock.runExclusive(async () => {
+      const items = await this.getItems();
+      if (items.length === 0) {
+        return null;
+      }
+      
+      const item = items.pop();
+      await this.saveItems(items);
+      return item;
+    });
+  }
+  
+  /**
+   * Remove and return up to count items from the front of the source in one write
+   */
+  async removeItemsFront(count: number): Promise<any[]> {
+    // If working in-memory, delegate to memory operations
+    if (this.config.inMemory) {
+      return this.cachedItems.splice(0, count);
     }
     
-    const item = items.pop();
-    await this.saveItems(items);
-    return item;
+    // Otherwise, load all items, remove the first ones, and save back while holding the file lock
+    return this.lock.runExclusive(async () => {
+      const items = await this.getItems();
+      const removedItems = items.splice(0, count);
+      if (removedItems.length > 0) {
+        await this.saveItems(items);
+      }
+      return removedItems;
+    });
   }
   
   /**
-   * Load and parse a JSON file
+   * Remove and return up to count items from the back of the source in one write, the last item first
    */
-  private async loadJsonFile(filename: string): Promise<any[]> {
-    const filepath = path.join(TEMPLATES_DIR, filename);
+  async removeItemsBack(count: number): Promise<any[]> {
+    // If working in-memory, delegate to memory operations
+    if (this.config.inMemory) {
+      return this.cachedItems.splice(Math.max(this.cachedItems.length - count, 0)).reverse();
+    }
     
+    // Otherwise, load all items, remove the last ones, and save back while holding the file lock
+    return this.lock.runExclusive(async () => {
+      const items = await this.getItems();
+      const removedItems = items.splice(Math.max(items.length - count, 0)).reverse();
+      if (removedItems.length > 0) {
+        await this.saveItems(items);
+      }
+      return removedItems;
+    });
+  }
+  
+  /**
+   * Read up to count items from the front or back without removing them
+   */
+  async peekItems(direction: 'front' | 'back', count: number): Promise<any[]> {
+    const items = await this.getItems();
+    return direction === 'front'
+      ? items.slice(0, count)
+      : items.slice(-count).reverse();
+  }
+  
+  /**
+   * Read a page of items without removing them
+   */
+  async listItems(offset: number, limit: number): Promise<any[]> {
+    const items = await this.getItems();
+    return items.slice(offset, offset + limit);
+  }
+  
+  /**
+   * Count the items in the source
+   */
+  async countItems(): Promise<number> {
+    const items = await this.getItems();
+    return items.length;
+  }
+  
+  /**
+   * Load and parse a JSON file
+   */
+  private async loadJsonFile(filepath: string): Promise<any[]> {
     try {
       const data = await fs.readFile(filepath, 'utf-8');
       const parsed = JSON.parse(data);
       
       if (!Array.isArray(parsed)) {
-        throw new Error(`File ${filename} does not contain an array`);
+        throw new Error(`File ${filepath} does not contain an array`);
       }
       
       return parsed;
     } catch (error) {
-      logger.error(`Failed to load JSON file: ${filename}`, error);
-      throw new Error(`Failed to load JSON file: ${filename}`);
+      logger.error(`Failed to load JSON file: ${filepath}`, error);
+      throw new Error(`Failed to load JSON file: ${filepath}`);
     }
   }
   
   /**
    * Save data to a JSON file
    */
-  private async saveJsonFile(filename: string, data: any[]): Promise<void> {
-    const filepath = path.join(TEMPLATES_DIR, filename);
-    
+  private async saveJsonFile(filepath: string, data: any[]): Promise<void> {
     try {
       const jsonData = JSON.stringify(data, null, 2);
-      await fs.writeFile(filepath, jsonData, 'utf-8');
+      await writeFileAtomic(filepath, jsonData);
+      this.rememberContent(filepath, jsonData);
     } catch (error) {
-      logger.error(`Failed to save JSON file: ${filename}`, error);
-      throw new Error(`Failed to save JSON file: ${filename}`);
+      logger.error(`Failed to save JSON file: ${filepath}`, error);
+      throw new Error(`Failed to save JSON file: ${filepath}`);
+    }
+  }
+  
+  /**
+   * Remember what this process wrote to the data file, own writes are not external changes
+   */
+  private rememberContent(filepath: string, content: string): void {
+    if (filepath === this.dataFile) {
+      this.lastContent = content;
     }
   }
   
@@ -299,10 +487,74 @@ export class JsonLoader implements QueueLoader {
   }
   
   /**
-   * Convert template ID to filename
+   * Convert template ID to the path of its file, rejecting ids outside the templates directory
+   */
+  private getTemplatePath(templateId: string): string {
+    return resolveTemplatePath(this.templatesDir, templateId, '.json');
+  }
+  
+  /**
+   * Read the data file after a change, ignoring changes made by this process
+   * @returns The new items, or null if the content is unchanged
+   */
+  private async readExternalChange(): Promise<any[] | null> {
+    return this.lock.runExclusive(async () => {
+      let content: string;
+      try {
+        content = await fs.readFile(this.dataFile, 'utf-8');
+      } catch {
+        // The file is being replaced, the next event brings the new one
+        return null;
+      }
+      
+      if (content === this.lastContent) {
+        return null;
+      }
+      
+      const items = await this.loadJsonFile(this.dataFile);
+      this.lastContent = content;
+      this.cachedItems = items;
+      
+      logger.info(`Detected external change to ${this.dataFile} with ${items.length} items`);
+      return items;
+    });
+  }
+  
+  /**
+   * Load the first template, used to seed a new data file
+   */
+  private async loadDefaultTemplate(): Promise<any[]> {
+    const files = await fs.readdir(this.templatesDir);
+    const jsonFiles = files.filter(file => file.endsWith('.json'));
+    
+    if (jsonFiles.length === 0) {
+      return [];
+    }
+    
+    return await this.loadJsonFile(path.join(this.templatesDir, jsonFiles[0]));
+  }
+  
+  /**
+   * Load the data file, seeding it from the first template if it does not exist yet
    */
-  private getFilenameFromTemplateId(templateId: string): string {
-    // Ensure the template ID has .json extension
-    return templateId.endsWith('.json') ? templateId : `${templateId}.json`;
+  private async loadDataFile(): Promise<any[]> {
+    try {
+      await fs.access(this.dataFile);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+      
+      // No working state yet
+      const items = await this.loadDefaultTemplate();
+      
+      await this.saveJsonFile(this.dataFile, items);
+      logger.info(`Created data file ${this.dataFile} with ${items.length} items`);
+      
+      return items;
+    }
+    
+    // A data file that fails to parse is reported, never replaced by the template
+    return await this.loadJsonFile(this.dataFile);
   }
 } 
\ No newline at end of file
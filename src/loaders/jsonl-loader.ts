@@ -0,0 +1,562 @@
+/**
+ * JSON Lines Loader Implementation
+ */
+
+import { ItemTemplate, QueueConfig } from '../config/types.js';
+import { QueueLoader } from './index.js';
+import { resolveTemplatePath } from '../config/paths.js';
+import { Mutex } from '../utils/mutex.js';
+import { FileLock } from '../utils/file-lock.js';
+import { writeFileAtomic } from '../utils/atomic-file.js';
+import * as logger from '../utils/logger.js';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Default log size in bytes after which the log is compacted
+ */
+const DEFAULT_COMPACTION_THRESHOLD = 1024 * 1024;
+
+/**
+ * A change to the queue as recorded in the log
+ */
+type QueueEvent =
+  | { op: 'push'; end: 'front' | 'back'; item: any; at: string }
+  | { op: 'pushBatch'; end: 'front' | 'back'; items: any[]; at: string }
+  | { op: 'insert'; index: number; item: any; at: string }
+  | { op: 'replace'; index: number; item: any; at: string }
+  | { op: 'pop'; end: 'front' | 'back'; count?: number; at: string }
+  | { op: 'reset'; items: any[]; at: string };
+
+/**
+ * Loader that records every change as a line in an append-only log
+ *
+ * The current items are rebuilt by replaying the log on startup. Once the log
+ * grows past the compaction threshold it is replaced in the background by a
+ * single reset event holding the current items.
+ *
+ * Processes sharing the log take turns through a lock file next to it. Each
+ * change first applies the events the other processes appended, or replays
+ * the log anew if one of them compacted it.
+ */
+export class JsonlLoader implements QueueLoader {
+  private initialized = false;
+  private itemSchema: ItemTemplate | null = null;
+  private items: any[] = [];
+  private log: fs.FileHandle | null = null;
+  private logSize = 0;
+  private isCompactionPending = false;
+  private isClosed = false;
+  private compaction: Promise<void> = Promise.resolve();
+  private writes = new Mutex();
+  private readonly lock: FileLock;
+  private readonly logPath: string;
+  private readonly templatesDir: string;
+  private readonly compactionThreshold: number;
+
+  constructor(
+    private config: QueueConfig,
+    queueName: string
+  ) {
+    if (config.loader !== 'jsonl') {
+      throw new Error('JsonlLoader requires config.loader to be "jsonl"');
+    }
+
+    this.logPath = path.resolve(config.dataFile || path.join('logs', `${queueName}.jsonl`));
+    this.lock = new FileLock(`${this.logPath}.lock`);
+    this.templatesDir = path.resolve(config.templatesDir || 'templates');
+    this.compactionThreshold = config.compactionThreshold || DEFAULT_COMPACTION_THRESHOLD;
+  }
+
+  /**
+   * Initialize the loader by replaying the log
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(path.dirname(this.logPath), { recursive: true });
+      await this.lock.runExclusive(() => this.open());
+    } catch (error) {
+      logger.error('Failed to initialize JSON Lines loader', error);
+      throw new Error('Failed to initialize JSON Lines loader');
+    }
+
+    if (this.items.length > 0 && !this.config.itemTemplate) {
+      this.itemSchema = this.inferSchema(this.items[0]);
+    }
+
+    // Use configured schema if provided
+    if (this.config.itemTemplate) {
+      this.itemSchema = this.config.itemTemplate;
+    }
+
+    this.initialized = true;
+    logger.info(`JSON Lines loader initialized with ${this.items.length} items from ${this.logPath}`);
+  }
+
+  /**
+   * Get all items
+   */
+  async getItems(): Promise<any[]> {
+    return [...this.items];
+  }
+
+  /**
+   * Load items from a JSON template file
+   */
+  async loadTemplate(templateId: string): Promise<any[]> {
+    try {
+      const content = await fs.readFile(this.getTemplatePath(templateId), 'utf-8');
+      const items = JSON.parse(content);
+      return Array.isArray(items) ? items : [];
+    } catch (error) {
+      logger.error(`Failed to load template: ${templateId}`, error);
+      throw new Error(`Failed to load template: ${templateId}`);
+    }
+  }
+
+  /**
+   * Check if a template exists
+   */
+  async hasTemplate(templateId: string): Promise<boolean> {
+    try {
+      await fs.access(this.getTemplatePath(templateId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Save items as a JSON template file
+   */
+  async saveTemplate(templateId: string, items: any[]): Promise<void> {
+    const filepath = this.getTemplatePath(templateId);
+    await fs.mkdir(this.templatesDir, { recursive: true });
+    await writeFileAtomic(filepath, JSON.stringify(items, null, 2));
+    logger.info(`Saved ${items.length} items as template ${templateId}`);
+  }
+
+  /**
+   * Get the item schema
+   */
+  getItemSchema(): ItemTemplate | null {
+    return this.itemSchema;
+  }
+
+  /**
+   * Replace all items, recorded as a reset event
+   *
+   * Unlike other changes a reset is written in memory mode as well, it is how
+   * a queue held in memory is flushed.
+   */
+  async saveItems(items: any[]): Promise<void> {
+    const event: QueueEvent = { op: 'reset', items: [...items], at: this.now() };
+
+    await this.runExclusive(() => this.writes.runExclusive(async () => {
+      await this.write(event);
+      this.apply(this.items, event);
+    }));
+    this.scheduleCompaction();
+  }
+
+  /**
+   * Run a read-modify-write cycle under the lock file, on the items as the
+   * other processes left them
+   */
+  async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    if (this.config.inMemory) {
+      return task();
+    }
+
+    return this.lock.runExclusive(async () => {
+      await this.writes.runExclusive(() => this.catchUp());
+      return await task();
+    });
+  }
+
+  /**
+   * Close the log once a running compaction has finished
+   */
+  async close(): Promise<void> {
+    this.isClosed = true;
+    await this.compaction;
+    await this.writes.runExclusive(async () => {
+      await this.log?.close();
+      this.log = null;
+    });
+  }
+
+  /**
+   * Add a single item at the front
+   */
+  async addItemFront(item: any): Promise<void> {
+    await this.record({ op: 'push', end: 'front', item, at: this.now() });
+  }
+
+  /**
+   * Add a single item at the back
+   */
+  async addItemBack(item: any): Promise<void> {
+    await this.record({ op: 'push', end: 'back', item, at: this.now() });
+  }
+
+  /**
+   * Add several items at the front, keeping their order
+   */
+  async addItemsFront(items: any[]): Promise<void> {
+    await this.record({ op: 'pushBatch', end: 'front', items: [...items], at: this.now() });
+  }
+
+  /**
+   * Add several items at the back
+   */
+  async addItemsBack(items: any[]): Promise<void> {
+    await this.record({ op: 'pushBatch', end: 'back', items: [...items], at: this.now() });
+  }
+
+  /**
+   * Insert a single item at the given index
+   */
+  async insertItemAt(index: number, item: any): Promise<void> {
+    await this.record({ op: 'insert', index, item, at: this.now() });
+  }
+
+  /**
+   * Replace the item at the given index
+   */
+  async replaceItemAt(index: number, item: any): Promise<void> {
+    await this.record({ op: 'replace', index, item, at: this.now() });
+  }
+
+  /**
+   * Remove and return an item from the front
+   */
+  async removeItemFront(): Promise<any | null> {
+    const [item] = await this.pop('front', 1);
+    return item ?? null;
+  }
+
+  /**
+   * Remove and return an item from the back
+   */
+  async removeItemBack(): Promise<any | null> {
+    const [item] = await this.pop('back', 1);
+    return item ?? null;
+  }
+
+  /**
+   * Remove and return up to count items from the front
+   */
+  async removeItemsFront(count: number): Promise<any[]> {
+    return this.pop('front', count);
+  }
+
+  /**
+   * Remove and return up to count items from the back, the last item first
+   */
+  async removeItemsBack(count: number): Promise<any[]> {
+    return this.pop('back', count);
+  }
+
+  /**
+   * Read up to count items from the front or back without removing them
+   */
+  async peekItems(direction: 'front' | 'back', count: number): Promise<any[]> {
+    return direction === 'front'
+      ? this.items.slice(0, count)
+      : this.items.slice(-count).reverse();
+  }
+
+  /**
+   * Read a page of items without removing them
+   */
+  async listItems(offset: number, limit: number): Promise<any[]> {
+    return this.items.slice(offset, offset + limit);
+  }
+
+  /**
+   * Count the items
+   */
+  async countItems(): Promise<number> {
+    return this.items.length;
+  }
+
+  /**
+   * Remove up to count items at one end, recording the pop only if there were
+   * items, the item at the end comes first
+   */
+  private async pop(end: 'front' | 'back', count: number): Promise<any[]> {
+    const take = async () => {
+      const items = end === 'front'
+        ? this.items.slice(0, count)
+        : this.items.slice(Math.max(this.items.length - count, 0)).reverse();
+      if (items.length === 0) {
+        return [];
+      }
+
+      // A single pop is written without a count, as it always was
+      await this.append(items.length === 1
+        ? { op: 'pop', end, at: this.now() }
+        : { op: 'pop', end, count: items.length, at: this.now() });
+      return items;
+    };
+
+    if (this.config.inMemory) {
+      return take();
+    }
+
+    const item = await this.runExclusive(() => this.writes.runExclusive(take));
+    this.scheduleCompaction();
+    return item;
+  }
+
+  /**
+   * Apply an event to the items and append it to the log
+   */
+  private async record(event: QueueEvent): Promise<void> {
+    if (this.config.inMemory) {
+      await this.append(event);
+      return;
+    }
+
+    await this.runExclusive(() => this.writes.runExclusive(() => this.append(event)));
+    this.scheduleCompaction();
+  }
+
+  /**
+   * Write an event to the log, then apply it to the items
+   *
+   * In memory mode the queue manager holds the items, so nothing is written.
+   */
+  private async append(event: QueueEvent): Promise<void> {
+    if (!this.config.inMemory) {
+      await this.write(event);
+    }
+
+    this.apply(this.items, event);
+  }
+
+  /**
+   * Write an event to the end of the log
+   */
+  private async write(event: QueueEvent): Promise<void> {
+    const line = `${JSON.stringify(event)}\n`;
+    await this.getLog().appendFile(line, 'utf-8');
+    await this.getLog().datasync();
+    this.logSize += Buffer.byteLength(line);
+  }
+
+  /**
+   * Apply an event to a list of items
+   */
+  private apply(items: any[], event: QueueEvent): void {
+    switch (event.op) {
+      case 'push':
+        if (event.end === 'front') {
+          items.unshift(event.item);
+        } else {
+          items.push(event.item);
+        }
+        break;
+      case 'pushBatch':
+        if (event.end === 'front') {
+          items.unshift(...event.items);
+        } else {
+          items.push(...event.items);
+        }
+        break;
+      case 'insert':
+        items.splice(event.index, 0, event.item);
+        break;
+      case 'replace':
+        items[event.index] = event.item;
+        break;
+      case 'pop':
+        if (event.end === 'front') {
+          items.splice(0, event.count ?? 1);
+        } else {
+          items.splice(Math.max(items.length - (event.count ?? 1), 0));
+        }
+        break;
+      case 'reset':
+        items.splice(0, items.length, ...event.items);
+        break;
+    }
+  }
+
+  /**
+   * Rebuild the items from the log and open it for appending
+   */
+  private async open(): Promise<void> {
+    this.items = await this.replay();
+    this.log = await fs.open(this.logPath, 'a');
+    this.logSize = (await this.log.stat()).size;
+  }
+
+  /**
+   * Apply the events other processes appended since the log was last read
+   */
+  private async catchUp(): Promise<void> {
+    const [fileStat, logStat] = await Promise.all([fs.stat(this.logPath), this.getLog().stat()]);
+
+    // A compaction replaced the file, the open log is no longer in use
+    if (fileStat.ino !== logStat.ino) {
+      await this.getLog().close();
+      this.log = null;
+      await this.open();
+      return;
+    }
+
+    if (fileStat.size <= this.logSize) {
+      return;
+    }
+
+    const buffer = Buffer.alloc(fileStat.size - this.logSize);
+    const file = await fs.open(this.logPath, 'r');
+    try {
+      await file.read(buffer, 0, buffer.length, this.logSize);
+    } finally {
+      await file.close();
+    }
+
+    // A torn last line is left by a process that died while writing, cut it
+    // off like on startup
+    const content = buffer.toString('utf-8');
+    const completeLength = content.lastIndexOf('\n') + 1;
+    if (completeLength < content.length) {
+      logger.warn(`Dropping incomplete last line of ${this.logPath}`);
+      await fs.truncate(this.logPath, this.logSize + Buffer.byteLength(content.slice(0, completeLength)));
+    }
+
+    for (const line of content.slice(0, completeLength).split('\n')) {
+      if (line.trim() !== '') {
+        this.apply(this.items, JSON.parse(line));
+      }
+    }
+
+    this.logSize += Buffer.byteLength(content.slice(0, completeLength));
+  }
+
+  /**
+   * Rebuild the items from the log
+   */
+  private async replay(): Promise<any[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.logPath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const items: any[] = [];
+    const lines = content.split('\n');
+
+    for (const [index, line] of lines.entries()) {
+      if (line.trim() === '') {
+        continue;
+      }
+
+      try {
+        this.apply(items, JSON.parse(line));
+      } catch {
+        if (index !== lines.length - 1) {
+          throw new Error(`Corrupt line ${index + 1} in ${this.logPath}`);
+        }
+
+        // A torn last line is the trace of an interrupted write, cut it off so
+        // the next event starts on a line of its own
+        logger.warn(`Dropping incomplete last line of ${this.logPath}`);
+        await fs.truncate(this.logPath, Buffer.byteLength(content) - Buffer.byteLength(line));
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Start a compaction in the background once the log has grown too large
+   */
+  private scheduleCompaction(): void {
+    if (this.isClosed || this.isCompactionPending || this.logSize < this.compactionThreshold) {
+      return;
+    }
+
+    // The snapshot must include the events of other processes, and none may
+    // append to the log while it is replaced
+    this.isCompactionPending = true;
+    const compact = () => this.writes.runExclusive(async () => {
+      await this.catchUp();
+      await this.compact();
+    });
+    this.compaction = (this.config.inMemory ? compact() : this.lock.runSeparately(compact))
+      .catch(error => logger.error(`Failed to compact ${this.logPath}`, error))
+      .finally(() => {
+        this.isCompactionPending = false;
+      });
+  }
+
+  /**
+   * Replace the log by a single reset event holding the current items
+   */
+  private async compact(): Promise<void> {
+    const line = `${JSON.stringify({ op: 'reset', items: this.items, at: this.now() })}\n`;
+
+    // Swap the flushed snapshot in for the log, a crash leaves one or the other
+    await this.getLog().close();
+    this.log = null;
+
+    try {
+      await writeFileAtomic(this.logPath, line);
+      this.logSize = Buffer.byteLength(line);
+    } finally {
+      this.log = await fs.open(this.logPath, 'a');
+    }
+
+    logger.debug(`Compacted ${this.logPath} to ${this.items.length} items`);
+  }
+
+  /**
+   * Get the open log file
+   */
+  private getLog(): fs.FileHandle {
+    if (!this.log) {
+      throw new Error('JSON Lines log not open');
+    }
+
+    return this.log;
+  }
+
+  /**
+   * Timestamp for a new event
+   */
+  private now(): string {
+    return new Date().toISOString();
+  }
+
+  /**
+   * Infer schema from an item
+   */
+  private inferSchema(item: any): Record<string, string> {
+    const schema: Record<string, string> = {};
+
+    if (typeof item === 'object' && item !== null) {
+      for (const [key, value] of Object.entries(item)) {
+        schema[key] = typeof value;
+      }
+    }
+
+    return schema;
+  }
+
+  /**
+   * Convert template ID to the path of its file, rejecting ids outside the templates directory
+   */
+  private getTemplatePath(templateId: string): string {
+    return resolveTemplatePath(this.templatesDir, templateId, '.json');
+  }
+
+}
\ No newline at end of file
@@ -2,16 +2,21 @@
  * Memory Loader Implementation
  */
 
-import { QueueConfig } from '../config/types.js';
+import { ItemTemplate, QueueConfig } from '../config/types.js';
 import { QueueLoader } from './index.js';
+import { writeFileAtomic } from '../utils/atomic-file.js';
 import * as logger from '../utils/logger.js';
+import fs from 'fs/promises';
+import path from 'path';
 
 /**
- * Loader that maintains items only in memory
+ * Loader that maintains items in memory, optionally kept across restarts in a snapshot file
  */
 export class MemoryLoader implements QueueLoader {
   private initialized = false;
   private items: any[] = [];
+  private templates = new Map<string, any[]>();
+  private readonly snapshotFile: string | null;
   
   constructor(private config: QueueConfig) {
     if (config.loader !== 'memory') {
@@ -21,6 +26,8 @@ export class MemoryLoader implements QueueLoader {
     if (!config.put) {
       throw new Error('MemoryLoader requires config.put to be true');
     }
+    
+    this.snapshotFile = config.dataFile ? path.resolve(config.dataFile) : null;
   }
   
   /**
@@ -31,7 +38,11 @@ export class MemoryLoader implements QueueLoader {
       return;
     }
     
-    // Memory loader doesn't need special initialization
+    // Resume from the snapshot of the previous run if there is one
+    if (this.snapshotFile) {
+      this.items = await this.loadSnapshot(this.snapshotFile);
+    }
+    
     this.initialized = true;
     logger.info('Memory loader initialized');
   }
@@ -45,27 +56,31 @@ export class MemoryLoader implements QueueLoader {
   }
   
   /**
-   * Load items from a template - for memory loader this resets to empty state
+   * Load items from a template saved in this process, unknown templates are empty
    */
   async loadTemplate(templateId: string): Promise<any[]> {
-    // For memory loader, template ID is ignored and we just reset to empty
-    logger.info('Memory loader reset (templateId ignored)');
-    this.items = [];
-    return this.items;
+    return [...(this.templates.get(templateId) || [])];
   }
   
   /**
-   * Check if a template exists - always returns true for memory loader
+   * Check if a template was saved in this process
    */
   async hasTemplate(templateId: string): Promise<boolean> {
-    // Memory loader always considers any template to exist (and ignores it)
-    return true;
+    return this.templates.has(templateId);
+  }
+  
+  /**
+   * Keep items as a template for the lifetime of the process
+   */
+  async saveTemplate(templateId: string, items: any[]): Promise<void> {
+    this.templates.set(templateId, [...items]);
+    logger.debug(`Memory loader saved ${items.length} items as template ${templateId}`);
   }
   
   /**
    * Get the item schema from configuration
    */
-  getItemSchema(): Record<string, string> | null {
+  getItemSchema(): ItemTemplate | null {
     return this.config.itemTemplate || null;
   }
   
@@ -75,9 +90,30 @@ export class MemoryLoader implements QueueLoader {
   async saveItems(items: any[]): Promise<void> {
     // For memory loader, just replace the internal array
     this.items = [...items];
+    
+    // Keep the snapshot so a restart resumes with these items
+    if (this.snapshotFile) {
+      await fs.mkdir(path.dirname(this.snapshotFile), { recursive: true });
+      await writeFileAtomic(this.snapshotFile, JSON.stringify(this.items, null, 2));
+    }
+    
     logger.debug(`Memory loader saved ${items.length} items`);
   }
   
+  /**
+   * Run a read-modify-write cycle, memory is never shared between processes
+   */
+  async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    return task();
+  }
+  
+  /**
+   * Release the source, items only live in memory
+   */
+  async close(): Promise<void> {
+    // Nothing to release
+  }
+  
   /**
    * Add a single item to the source at the front
    */
@@ -96,6 +132,38 @@ export class MemoryLoader implements QueueLoader {
     logger.debug('Memory loader added item to back');
   }
   
+  /**
+   * Add several items to the source at the front, keeping their order
+   */
+  async addItemsFront(items: any[]): Promise<void> {
+    this.items.unshift(...items);
+    logger.debug(`Memory loader added ${items.length} items to front`);
+  }
+  
+  /**
+   * Add several items to the source at the back
+   */
+  async addItemsBack(items: any[]): Promise<void> {
+    this.items.push(...items);
+    logger.debug(`Memory loader added ${items.length} items to back`);
+  }
+  
+  /**
+   * Insert a single item into the source at the given index
+   */
+  async insertItemAt(index: number, item: any): Promise<void> {
+    this.items.splice(index, 0, item);
+    logger.debug(`Memory loader inserted item at ${index}`);
+  }
+  
+  /**
+   * Replace the item at the given index in the source
+   */
+  async replaceItemAt(index: number, item: any): Promise<void> {
+    this.items[index] = item;
+    logger.debug(`Memory loader replaced item at ${index}`);
+  }
+  
   /**
    * Remove and return an item from the front of the source
    */
@@ -119,4 +187,61 @@ export class MemoryLoader implements QueueLoader {
     // Remove and return last item
     return this.items.pop() || null;
   }
-} 
\ No newline at end of file
+  
+  /**
+   * Remove and return up to count items from the front of the source
+   */
+  async removeItemsFront(count: number): Promise<any[]> {
+    return this.items.splice(0, count);
+  }
+  
+  /**
+   * Remove and return up to count items from the back of the source, the last item first
+   */
+  async removeItemsBack(count: number): Promise<any[]> {
+    return this.items.splice(Math.max(this.items.length - count, 0)).reverse();
+  }
+  
+  /**
+   * Read up to count items from the front or back without removing them
+   */
+  async peekItems(direction: 'front' | 'back', count: number): Promise<any[]> {
+    return direction === 'front'
+      ? this.items.slice(0, count)
+      : this.items.slice(-count).reverse();
+  }
+  
+  /**
+   * Read a page of items without removing them
+   */
+  async listItems(offset: number, limit: number): Promise<any[]> {
+    return this.items.slice(offset, offset + limit);
+  }
+  
+  /**
+   * Count the items in memory
+   */
+  async countItems(): Promise<number> {
+    return this.items.length;
+  }
+  
+  /**
+   * Read the items of a snapshot file, a missing file means an empty queue
+   */
+  private async loadSnapshot(filepath: string): Promise<any[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(filepath, 'utf-8');
+    } catch {
+      return [];
+    }
+    
+    const items = JSON.parse(content);
+    if (!Array.isArray(items)) {
+      throw new Error(`Snapshot ${filepath} does not contain an array`);
+    }
+    
+    logger.info(`Memory loader restored ${items.length} items from ${filepath}`);
+    return items;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,619 @@
+/**
+ * SQLite Loader Implementation
+ */
+
+import { ItemTemplate, QueueConfig } from '../config/types.js';
+import { QueueLoader } from './index.js';
+import { toFieldDefinition } from '../schema/item-schema.js';
+import { resolveTemplatePath } from '../config/paths.js';
+import { FileLock } from '../utils/file-lock.js';
+import * as logger from '../utils/logger.js';
+import Database from 'better-sqlite3';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * How long to wait for a lock held by another process in milliseconds
+ */
+const BUSY_TIMEOUT = 5000;
+
+/**
+ * Loader that keeps items in a SQLite database
+ *
+ * Items of all queues live in one table, keyed by queue name and ordered by a
+ * position column. The item itself is stored as JSON, and every field of the
+ * item template is exposed as a generated column so the queue can be queried
+ * with SQL. Every write runs in its own transaction, and a queue operation
+ * spanning several reads and writes runs in one transaction under a lock file
+ * next to the database, so several processes can share one database.
+ */
+export class SqliteLoader implements QueueLoader {
+  private initialized = false;
+  private itemSchema: ItemTemplate | null = null;
+  private cachedItems: any[] = [];
+  private db: Database.Database | null = null;
+  private readonly databasePath: string;
+  private readonly templatesDir: string;
+  private readonly lock: FileLock;
+
+  constructor(
+    private config: QueueConfig,
+    private queueName: string
+  ) {
+    if (config.loader !== 'sqlite') {
+      throw new Error('SqliteLoader requires config.loader to be "sqlite"');
+    }
+
+    this.databasePath = path.resolve(config.dataFile || 'queue.db');
+    this.templatesDir = path.resolve(config.templatesDir || 'templates');
+    this.lock = new FileLock(`${this.databasePath}.lock`);
+  }
+
+  /**
+   * Initialize the SQLite loader
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    try {
+      await fs.mkdir(path.dirname(this.databasePath), { recursive: true });
+      this.db = new Database(this.databasePath);
+      this.db.pragma('journal_mode = WAL');
+      this.db.pragma(`busy_timeout = ${BUSY_TIMEOUT}`);
+
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS items (
+          _queue TEXT NOT NULL,
+          _position INTEGER NOT NULL,
+          _data TEXT NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS items_queue_position ON items (_queue, _position);
+        CREATE TABLE IF NOT EXISTS templates (
+          _template TEXT NOT NULL,
+          _position INTEGER NOT NULL,
+          _data TEXT NOT NULL,
+          PRIMARY KEY (_template, _position)
+        );
+      `);
+
+      if (this.config.itemTemplate) {
+        this.addTemplateColumns(this.config.itemTemplate);
+      }
+    } catch (error) {
+      logger.error('Failed to initialize SQLite loader', error);
+      throw new Error('Failed to initialize SQLite loader');
+    }
+
+    const items = this.readItems();
+
+    if (items.length > 0 && !this.config.itemTemplate) {
+      this.itemSchema = this.inferSchema(items[0]);
+    }
+
+    // Cache items if in-memory mode is enabled
+    if (this.config.inMemory) {
+      this.cachedItems = items;
+    }
+
+    // Use configured schema if provided
+    if (this.config.itemTemplate) {
+      this.itemSchema = this.config.itemTemplate;
+    }
+
+    this.initialized = true;
+    logger.info(`SQLite loader initialized for queue ${this.queueName}`);
+  }
+
+  /**
+   * Get all items of the queue
+   */
+  async getItems(): Promise<any[]> {
+    if (this.config.inMemory) {
+      return [...this.cachedItems];
+    }
+
+    return this.readItems();
+  }
+
+  /**
+   * Load items from a template table entry or a JSON template file
+   */
+  async loadTemplate(templateId: string): Promise<any[]> {
+    try {
+      const rows = this.getDatabase()
+        .prepare('SELECT _data FROM templates WHERE _template = ? ORDER BY _position')
+        .all(templateId) as Array<{ _data: string }>;
+
+      if (rows.length > 0) {
+        return rows.map(row => JSON.parse(row._data));
+      }
+
+      const content = await fs.readFile(this.getTemplatePath(templateId), 'utf-8');
+      const items = JSON.parse(content);
+      return Array.isArray(items) ? items : [];
+    } catch (error) {
+      logger.error(`Failed to load template: ${templateId}`, error);
+      throw new Error(`Failed to load template: ${templateId}`);
+    }
+  }
+
+  /**
+   * Check if a template exists in the database or as a JSON file
+   */
+  async hasTemplate(templateId: string): Promise<boolean> {
+    const row = this.getDatabase()
+      .prepare('SELECT 1 FROM templates WHERE _template = ? LIMIT 1')
+      .get(templateId);
+
+    if (row) {
+      return true;
+    }
+
+    try {
+      await fs.access(this.getTemplatePath(templateId));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Save items as a template in the templates table
+   */
+  async saveTemplate(templateId: string, items: any[]): Promise<void> {
+    const db = this.getDatabase();
+    const remove = db.prepare('DELETE FROM templates WHERE _template = ?');
+    const insert = db.prepare('INSERT INTO templates (_template, _position, _data) VALUES (?, ?, ?)');
+
+    db.transaction(() => {
+      remove.run(templateId);
+      items.forEach((item, index) => insert.run(templateId, index, JSON.stringify(item)));
+    }).immediate();
+
+    logger.info(`Saved ${items.length} items as template ${templateId}`);
+  }
+
+  /**
+   * Get the item schema
+   */
+  getItemSchema(): ItemTemplate | null {
+    return this.itemSchema;
+  }
+
+  /**
+   * Save the complete list of items to the queue
+   */
+  async saveItems(items: any[]): Promise<void> {
+    // Keep the cache in line, the table is written in both modes so a queue
+    // held in memory can be flushed
+    if (this.config.inMemory) {
+      this.cachedItems = [...items];
+    }
+
+    const db = this.getDatabase();
+    const remove = db.prepare('DELETE FROM items WHERE _queue = ?');
+    const insert = db.prepare('INSERT INTO items (_queue, _position, _data) VALUES (?, ?, ?)');
+
+    db.transaction(() => {
+      remove.run(this.queueName);
+      items.forEach((item, index) => insert.run(this.queueName, index, JSON.stringify(item)));
+    }).immediate();
+
+    logger.debug(`Saved ${items.length} items to SQLite queue ${this.queueName}`);
+  }
+
+  /**
+   * Run a read-modify-write cycle in one transaction, rolled back if the task fails
+   *
+   * The lock file keeps the queues of all processes sharing the database,
+   * including those of this process, from waiting for each other inside
+   * SQLite, which would block the event loop.
+   */
+  async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    if (this.config.inMemory) {
+      return task();
+    }
+
+    return this.lock.runExclusive(async () => {
+      const db = this.getDatabase();
+
+      // Nested cycles join the open transaction
+      if (db.inTransaction) {
+        return task();
+      }
+
+      db.exec('BEGIN IMMEDIATE');
+      try {
+        const result = await task();
+        db.exec('COMMIT');
+        return result;
+      } catch (error) {
+        if (db.inTransaction) {
+          db.exec('ROLLBACK');
+        }
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Close the database, which checkpoints its write-ahead log
+   */
+  async close(): Promise<void> {
+    this.db?.close();
+    this.db = null;
+  }
+
+  /**
+   * Add a single item to the front of the queue
+   */
+  async addItemFront(item: any): Promise<void> {
+    // If in-memory mode, just update the cache
+    if (this.config.inMemory) {
+      this.cachedItems.unshift(item);
+      return;
+    }
+
+    const db = this.getDatabase();
+    db.transaction(() => {
+      const { position } = db
+        .prepare('SELECT COALESCE(MIN(_position), 1) - 1 AS position FROM items WHERE _queue = ?')
+        .get(this.queueName) as { position: number };
+      this.insertRow(position, item);
+    }).immediate();
+  }
+
+  /**
+   * Add a single item to the back of the queue
+   */
+  async addItemBack(item: any): Promise<void> {
+    // If in-memory mode, just update the cache
+    if (this.config.inMemory) {
+      this.cachedItems.push(item);
+      return;
+    }
+
+    const db = this.getDatabase();
+    db.transaction(() => {
+      const { position } = db
+        .prepare('SELECT COALESCE(MAX(_position), -1) + 1 AS position FROM items WHERE _queue = ?')
+        .get(this.queueName) as { position: number };
+      this.insertRow(position, item);
+    }).immediate();
+  }
+
+  /**
+   * Add several items to the front of the queue in one transaction, keeping their order
+   */
+  async addItemsFront(items: any[]): Promise<void> {
+    // If in-memory mode, just update the cache
+    if (this.config.inMemory) {
+      this.cachedItems.unshift(...items);
+      return;
+    }
+
+    const db = this.getDatabase();
+    db.transaction(() => {
+      const { position } = db
+        .prepare('SELECT COALESCE(MIN(_position), 0) - ? AS position FROM items WHERE _queue = ?')
+        .get(items.length, this.queueName) as { position: number };
+      items.forEach((item, index) => this.insertRow(position + index, item));
+    }).immediate();
+  }
+
+  /**
+   * Add several items to the back of the queue in one transaction
+   */
+  async addItemsBack(items: any[]): Promise<void> {
+    // If in-memory mode, just update the cache
+    if (this.config.inMemory) {
+      this.cachedItems.push(...items);
+      return;
+    }
+
+    const db = this.getDatabase();
+    db.transaction(() => {
+      const { position } = db
+        .prepare('SELECT COALESCE(MAX(_position), -1) + 1 AS position FROM items WHERE _queue = ?')
+        .get(this.queueName) as { position: number };
+      items.forEach((item, index) => this.insertRow(position + index, item));
+    }).immediate();
+  }
+
+  /**
+   * Insert a single item into the queue at the given index
+   */
+  async insertItemAt(index: number, item: any): Promise<void> {
+    // If in-memory mode, just update the cache
+    if (this.config.inMemory) {
+      this.cachedItems.splice(index, 0, item);
+      return;
+    }
+
+    const db = this.getDatabase();
+    db.transaction(() => {
+      const row = this.selectRowAt(index);
+
+      // Past the end the item simply goes to the back
+      if (!row) {
+        const { position } = db
+          .prepare('SELECT COALESCE(MAX(_position), -1) + 1 AS position FROM items WHERE _queue = ?')
+          .get(this.queueName) as { position: number };
+        this.insertRow(position, item);
+        return;
+      }
+
+      // Make room by moving all following items one position back
+      db.prepare('UPDATE items SET _position = _position + 1 WHERE _queue = ? AND _position >= ?')
+        .run(this.queueName, row.position);
+      this.insertRow(row.position, item);
+    }).immediate();
+  }
+
+  /**
+   * Replace the item at the given index in the queue
+   */
+  async replaceItemAt(index: number, item: any): Promise<void> {
+    // If in-memory mode, just update the cache
+    if (this.config.inMemory) {
+      this.cachedItems[index] = item;
+      return;
+    }
+
+    const db = this.getDatabase();
+    db.transaction(() => {
+      const row = this.selectRowAt(index);
+      if (!row) {
+        throw new Error(`No item at index ${index}`);
+      }
+
+      db.prepare('UPDATE items SET _data = ? WHERE rowid = ?').run(JSON.stringify(item), row.rowid);
+    }).immediate();
+  }
+
+  /**
+   * Remove and return an item from the front of the queue
+   */
+  async removeItemFront(): Promise<any | null> {
+    // If in-memory mode, operate on the cache
+    if (this.config.inMemory) {
+      return this.cachedItems.shift() || null;
+    }
+
+    return this.removeRow('ASC');
+  }
+
+  /**
+   * Remove and return an item from the back of the queue
+   */
+  async removeItemBack(): Promise<any | null> {
+    // If in-memory mode, operate on the cache
+    if (this.config.inMemory) {
+      return this.cachedItems.pop() || null;
+    }
+
+    return this.removeRow('DESC');
+  }
+
+  /**
+   * Remove and return up to count items from the front of the queue in one transaction
+   */
+  async removeItemsFront(count: number): Promise<any[]> {
+    // If in-memory mode, operate on the cache
+    if (this.config.inMemory) {
+      return this.cachedItems.splice(0, count);
+    }
+
+    return this.removeRows('ASC', count);
+  }
+
+  /**
+   * Remove and return up to count items from the back of the queue in one
+   * transaction, the last item first
+   */
+  async removeItemsBack(count: number): Promise<any[]> {
+    // If in-memory mode, operate on the cache
+    if (this.config.inMemory) {
+      return this.cachedItems.splice(Math.max(this.cachedItems.length - count, 0)).reverse();
+    }
+
+    return this.removeRows('DESC', count);
+  }
+
+  /**
+   * Read up to count items from the front or back without removing them
+   */
+  async peekItems(direction: 'front' | 'back', count: number): Promise<any[]> {
+    if (this.config.inMemory) {
+      return direction === 'front'
+        ? this.cachedItems.slice(0, count)
+        : this.cachedItems.slice(-count).reverse();
+    }
+
+    const order = direction === 'front' ? 'ASC' : 'DESC';
+    const rows = this.getDatabase()
+      .prepare(`SELECT _data FROM items WHERE _queue = ? ORDER BY _position ${order} LIMIT ?`)
+      .all(this.queueName, count) as Array<{ _data: string }>;
+
+    return rows.map(row => JSON.parse(row._data));
+  }
+
+  /**
+   * Read a page of items without removing them
+   */
+  async listItems(offset: number, limit: number): Promise<any[]> {
+    if (this.config.inMemory) {
+      return this.cachedItems.slice(offset, offset + limit);
+    }
+
+    const rows = this.getDatabase()
+      .prepare('SELECT _data FROM items WHERE _queue = ? ORDER BY _position LIMIT ? OFFSET ?')
+      .all(this.queueName, limit, offset) as Array<{ _data: string }>;
+
+    return rows.map(row => JSON.parse(row._data));
+  }
+
+  /**
+   * Count the items in the queue
+   */
+  async countItems(): Promise<number> {
+    if (this.config.inMemory) {
+      return this.cachedItems.length;
+    }
+
+    const { count } = this.getDatabase()
+      .prepare('SELECT COUNT(*) AS count FROM items WHERE _queue = ?')
+      .get(this.queueName) as { count: number };
+
+    return count;
+  }
+
+  /**
+   * Get the open database
+   */
+  private getDatabase(): Database.Database {
+    if (!this.db) {
+      throw new Error('SQLite database not initialized');
+    }
+
+    return this.db;
+  }
+
+  /**
+   * Read all items of the queue in order
+   */
+  private readItems(): any[] {
+    const rows = this.getDatabase()
+      .prepare('SELECT _data FROM items WHERE _queue = ? ORDER BY _position')
+      .all(this.queueName) as Array<{ _data: string }>;
+
+    return rows.map(row => JSON.parse(row._data));
+  }
+
+  /**
+   * Find the row at the given index of the queue
+   */
+  private selectRowAt(index: number): { rowid: number; position: number } | undefined {
+    return this.getDatabase()
+      .prepare('SELECT rowid, _position AS position FROM items WHERE _queue = ? ORDER BY _position LIMIT 1 OFFSET ?')
+      .get(this.queueName, index) as { rowid: number; position: number } | undefined;
+  }
+
+  /**
+   * Insert an item row at the given position
+   */
+  private insertRow(position: number, item: any): void {
+    this.getDatabase()
+      .prepare('INSERT INTO items (_queue, _position, _data) VALUES (?, ?, ?)')
+      .run(this.queueName, position, JSON.stringify(item));
+  }
+
+  /**
+   * Remove and return the first row in the given order, in one transaction
+   */
+  private removeRow(order: 'ASC' | 'DESC'): any | null {
+    const db = this.getDatabase();
+
+    return db.transaction(() => {
+      const row = db
+        .prepare(`SELECT rowid, _data FROM items WHERE _queue = ? ORDER BY _position ${order} LIMIT 1`)
+        .get(this.queueName) as { rowid: number; _data: string } | undefined;
+
+      if (!row) {
+        return null;
+      }
+
+      db.prepare('DELETE FROM items WHERE rowid = ?').run(row.rowid);
+      return JSON.parse(row._data);
+    }).immediate();
+  }
+
+  /**
+   * Remove and return the first rows in the given order, in one transaction
+   */
+  private removeRows(order: 'ASC' | 'DESC', count: number): any[] {
+    const db = this.getDatabase();
+
+    return db.transaction(() => {
+      const rows = db
+        .prepare(`SELECT rowid, _data FROM items WHERE _queue = ? ORDER BY _position ${order} LIMIT ?`)
+        .all(this.queueName, count) as Array<{ rowid: number; _data: string }>;
+
+      const remove = db.prepare('DELETE FROM items WHERE rowid = ?');
+      rows.forEach(row => remove.run(row.rowid));
+      return rows.map(row => JSON.parse(row._data));
+    }).immediate();
+  }
+
+  /**
+   * Expose every template field as a generated column of the items table
+   */
+  private addTemplateColumns(itemTemplate: ItemTemplate): void {
+    const db = this.getDatabase();
+    const columns = (db.prepare('PRAGMA table_xinfo(items)').all() as Array<{ name: string }>)
+      .map(column => column.name);
+
+    for (const [field, spec] of Object.entries(itemTemplate)) {
+      if (columns.includes(field)) {
+        continue;
+      }
+
+      // Internal columns start with an underscore and quotes cannot be escaped in the JSON path
+      if (field.startsWith('_') || field.includes('"')) {
+        logger.warn(`Field ${field} cannot be exposed as a SQLite column`);
+        continue;
+      }
+
+      const columnType = this.getColumnType(toFieldDefinition(spec).type);
+      db.exec(
+        `ALTER TABLE items ADD COLUMN "${field}" ${columnType} ` +
+        `GENERATED ALWAYS AS (json_extract(_data, '$."${field.replace(/'/g, "''")}"')) VIRTUAL`
+      );
+      logger.debug(`Added SQLite column for field ${field}`);
+    }
+  }
+
+  /**
+   * Map a field type to the type of its column
+   */
+  private getColumnType(type: string): string {
+    switch (type.toLowerCase()) {
+      case 'number':
+        return 'REAL';
+      case 'integer':
+      case 'boolean':
+        return 'INTEGER';
+      case 'object':
+      case 'array':
+      case 'any':
+        return '';
+      default:
+        return 'TEXT';
+    }
+  }
+
+  /**
+   * Infer schema from an item
+   */
+  private inferSchema(item: any): Record<string, string> {
+    const schema: Record<string, string> = {};
+
+    if (typeof item === 'object' && item !== null) {
+      for (const [key, value] of Object.entries(item)) {
+        schema[key] = typeof value;
+      }
+    }
+
+    return schema;
+  }
+
+  /**
+   * Convert template ID to the path of its file, rejecting ids outside the templates directory
+   */
+  private getTemplatePath(templateId: string): string {
+    return resolveTemplatePath(this.templatesDir, templateId, '.json');
+  }
+
+}
\ No newline at end of file
@@ -0,0 +1,106 @@
+/**
+ * Profile Resolver - Decides which tool profile a client connection gets
+ */
+
+import { ProfileConfig, QueueMincerConfig } from '../config/types.js';
+
+/**
+ * Name of the profile built from the top-level tools configuration
+ */
+export const DEFAULT_PROFILE_NAME = 'default';
+
+/**
+ * What a client presented when opening a connection, the stdio client started
+ * by whoever runs the server is trusted
+ */
+export interface ProfileRequest {
+  profile?: string;
+  token?: string;
+  trusted?: boolean;
+}
+
+/**
+ * Collect all profile configurations by name, including the default profile
+ * @param config The QueueMincer configuration
+ * @returns Map of profile name to profile configuration
+ */
+export function getProfileConfigs(config: QueueMincerConfig): Record<string, ProfileConfig> {
+  if (config.profiles?.[DEFAULT_PROFILE_NAME]) {
+    throw new Error(`Profile name "${DEFAULT_PROFILE_NAME}" is reserved for the tools configuration`);
+  }
+
+  return {
+    [DEFAULT_PROFILE_NAME]: { tools: config.tools },
+    ...config.profiles
+  };
+}
+
+/**
+ * Maps connection requests to profile names
+ */
+export class ProfileResolver {
+  constructor(private profiles: Record<string, ProfileConfig>) {}
+
+  /**
+   * Resolve the profile for a connection
+   *
+   * An explicitly requested profile wins, but a profile protected by tokens
+   * is only granted to a client presenting one of them. Without an explicit
+   * request the bearer token decides, falling back to the default profile.
+   * Once any profile is protected, a client without a token is refused, as
+   * the default profile cannot be protected itself. A trusted client gets
+   * the profile it requests without a token.
+   * @throws Error if the profile is unknown or the token does not grant it
+   */
+  resolve(request: ProfileRequest): string {
+    if (request.trusted) {
+      return this.requireProfile(request.profile || DEFAULT_PROFILE_NAME);
+    }
+
+    const tokenProfile = request.token ? this.findByToken(request.token) : undefined;
+
+    if (request.token && !tokenProfile) {
+      throw new Error('Invalid access token');
+    }
+
+    if (!request.token && this.isProtected()) {
+      throw new Error('An access token is required');
+    }
+
+    if (!request.profile) {
+      return tokenProfile || DEFAULT_PROFILE_NAME;
+    }
+
+    const profile = this.profiles[this.requireProfile(request.profile)];
+    if (profile.tokens && profile.tokens.length > 0 && tokenProfile !== request.profile) {
+      throw new Error(`Profile ${request.profile} requires a valid access token`);
+    }
+
+    return request.profile;
+  }
+
+  /**
+   * Check that a profile exists
+   * @throws Error if the profile is unknown
+   */
+  private requireProfile(name: string): string {
+    if (!this.profiles[name]) {
+      throw new Error(`Unknown profile: ${name}`);
+    }
+    return name;
+  }
+
+  /**
+   * Whether any profile is protected by tokens
+   */
+  private isProtected(): boolean {
+    return Object.values(this.profiles).some(profile => profile.tokens && profile.tokens.length > 0);
+  }
+
+  /**
+   * Find the profile a token belongs to
+   */
+  private findByToken(token: string): string | undefined {
+    return Object.keys(this.profiles).find(name => this.profiles[name].tokens?.includes(token));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+/**
+ * Item Availability - Keeps items back until their not-before time has passed
+ */
+
+/**
+ * Default field that holds the time from which an item may be handed out
+ */
+export const DEFAULT_AVAILABLE_AT_FIELD = 'availableAt';
+
+/**
+ * When a pushed item becomes available, as an absolute time or a delay
+ */
+export interface PushOptions {
+  availableAt?: string;
+  delay?: number;
+}
+
+/**
+ * Reads and writes the not-before time of items
+ *
+ * The time is stored on the item as an ISO timestamp. Items without one, or
+ * with a value that is not a valid date, are available right away.
+ */
+export class ItemAvailability {
+  readonly field: string;
+
+  constructor(field?: string) {
+    this.field = field || DEFAULT_AVAILABLE_AT_FIELD;
+  }
+
+  /**
+   * Time in milliseconds from which the item may be handed out, or null if it has none
+   */
+  getAvailableAt(item: any): number | null {
+    const value = item?.[this.field];
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return null;
+    }
+
+    const time = new Date(value).getTime();
+    return Number.isNaN(time) ? null : time;
+  }
+
+  /**
+   * Check whether the item may be handed out at the given time
+   */
+  isAvailable(item: any, now: number): boolean {
+    const availableAt = this.getAvailableAt(item);
+    return availableAt === null || availableAt <= now;
+  }
+
+  /**
+   * Earliest time at which one of the items becomes available
+   * @returns The time in milliseconds, or null if an item is available now or there are none
+   */
+  getNextAvailableAt(items: any[], now: number): number | null {
+    let next: number | null = null;
+
+    for (const item of items) {
+      const availableAt = this.getAvailableAt(item);
+      if (availableAt === null || availableAt <= now) {
+        return null;
+      }
+
+      next = next === null ? availableAt : Math.min(next, availableAt);
+    }
+
+    return next;
+  }
+
+  /**
+   * Return a copy of the item carrying the not-before time requested on push
+   * @throws Error if the requested time is not a valid date
+   */
+  schedule(item: any, options: PushOptions, now: number): any {
+    let availableAt: number;
+
+    if (options.availableAt !== undefined) {
+      availableAt = new Date(options.availableAt).getTime();
+      if (Number.isNaN(availableAt)) {
+        throw new Error(`Invalid availableAt: ${options.availableAt}`);
+      }
+    } else if (options.delay !== undefined) {
+      availableAt = now + options.delay * 1000;
+    } else {
+      return item;
+    }
+
+    return { ...item, [this.field]: new Date(availableAt).toISOString() };
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Item Claims - Keeps items assigned to a worker away from other workers
+ */
+
+/**
+ * Default field that names the worker an item is assigned to
+ */
+export const DEFAULT_ASSIGNEE_FIELD = 'assignee';
+
+/**
+ * Default field that holds the time an item was claimed
+ */
+export const DEFAULT_CLAIMED_AT_FIELD = 'claimedAt';
+
+/**
+ * Reads and writes the worker an item is assigned to
+ *
+ * An item without an assignee may be taken by any worker. Once a worker takes
+ * it, its name and the time are stamped onto the item, and the item stays
+ * with that worker until the claim is released or reassigned. Taking items
+ * without naming a worker only reaches unassigned ones.
+ */
+export class ItemClaims {
+  readonly field: string;
+  readonly claimedAtField: string;
+
+  constructor(field?: string, claimedAtField?: string) {
+    this.field = field || DEFAULT_ASSIGNEE_FIELD;
+    this.claimedAtField = claimedAtField || DEFAULT_CLAIMED_AT_FIELD;
+  }
+
+  /**
+   * Worker the item is assigned to, or null if it is unassigned
+   */
+  getAssignee(item: any): string | null {
+    const value = item?.[this.field];
+    return typeof value === 'string' && value !== '' ? value : null;
+  }
+
+  /**
+   * Check whether the worker may take the item, only unassigned items if no worker is given
+   */
+  isClaimableBy(item: any, worker?: string): boolean {
+    const assignee = this.getAssignee(item);
+    return assignee === null || assignee === worker;
+  }
+
+  /**
+   * Return a copy of the item claimed by the worker
+   */
+  claim(item: any, worker: string, now: number): any {
+    return { ...item, [this.field]: worker, [this.claimedAtField]: new Date(now).toISOString() };
+  }
+
+  /**
+   * Merge patch that assigns an item to a worker, or releases it if no worker is given
+   */
+  createAssignPatch(worker: string | null, now: number): Record<string, any> {
+    return worker === null
+      ? { [this.field]: null, [this.claimedAtField]: null }
+      : { [this.field]: worker, [this.claimedAtField]: new Date(now).toISOString() };
+  }
+}
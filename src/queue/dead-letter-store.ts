@@ -0,0 +1,95 @@
+/**
+ * Dead-Letter Store - Keeps items that ran out of attempts
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { writeFileAtomic } from '../utils/atomic-file.js';
+import { FileLock } from '../utils/file-lock.js';
+import { ItemId, ItemIdGenerator } from './id-generator.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Items given up on, stored in a JSON file next to the queue
+ *
+ * The file is read and written for every operation under a lock file, so the
+ * dead letters of a queue shared between processes stay consistent.
+ */
+export class DeadLetterStore {
+  private readonly lock: FileLock;
+
+  constructor(
+    private readonly filepath: string,
+    private readonly ids: ItemIdGenerator
+  ) {
+    this.lock = new FileLock(`${filepath}.lock`);
+  }
+
+  /**
+   * Create the directory of the store
+   */
+  async initialize(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filepath), { recursive: true });
+  }
+
+  /**
+   * Add an item after the existing dead letters
+   */
+  async add(item: any): Promise<void> {
+    await this.lock.runExclusive(async () => {
+      const items = await this.read();
+      await this.write([...items, item]);
+    });
+  }
+
+  /**
+   * Read a page of dead letters, oldest first
+   */
+  async list(offset: number, limit: number): Promise<{ items: any[]; total: number }> {
+    return this.lock.runExclusive(async () => {
+      const items = await this.read();
+      return { items: items.slice(offset, offset + limit), total: items.length };
+    });
+  }
+
+  /**
+   * Remove and return the dead letters with the given ids, or all of them
+   * @param ids Ids of the items to take, all items if undefined
+   */
+  async take(ids?: ItemId[]): Promise<any[]> {
+    return this.lock.runExclusive(async () => {
+      const items = await this.read();
+      const isTaken = (item: any) => ids === undefined || ids.includes(this.ids.getId(item) as ItemId);
+      const takenItems = items.filter(isTaken);
+
+      if (takenItems.length > 0) {
+        await this.write(items.filter(item => !isTaken(item)));
+      }
+
+      return takenItems;
+    });
+  }
+
+  /**
+   * Read all dead letters, none if the file does not exist yet
+   */
+  private async read(): Promise<any[]> {
+    try {
+      const items = JSON.parse(await fs.readFile(this.filepath, 'utf-8'));
+      return Array.isArray(items) ? items : [];
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      logger.error(`Failed to read dead letters from ${this.filepath}`, error);
+      throw new Error(`Failed to read dead letters from ${this.filepath}`);
+    }
+  }
+
+  /**
+   * Replace all dead letters
+   */
+  private async write(items: any[]): Promise<void> {
+    await writeFileAtomic(this.filepath, JSON.stringify(items, null, 2));
+  }
+}
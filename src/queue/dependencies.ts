@@ -0,0 +1,137 @@
+/**
+ * Item Dependencies - Holds items back until the items they depend on are finished
+ */
+
+import { ItemId, ItemIdGenerator } from './id-generator.js';
+
+/**
+ * Default field that lists the ids of the items an item depends on
+ */
+export const DEFAULT_DEPENDS_ON_FIELD = 'dependsOn';
+
+/**
+ * An item that waits for other items, with the ids it still waits for
+ */
+export interface BlockedItem {
+  item: any;
+  waitingFor: ItemId[];
+}
+
+/**
+ * Reads and checks the dependencies between items
+ *
+ * An item lists the ids of its prerequisites. It is blocked as long as one of
+ * them is unfinished, that is still queued, leased or given up on. Ids of
+ * items that are gone from the queue count as finished.
+ */
+export class ItemDependencies {
+  readonly field: string;
+
+  constructor(
+    private ids: ItemIdGenerator,
+    field?: string
+  ) {
+    this.field = field || DEFAULT_DEPENDS_ON_FIELD;
+  }
+
+  /**
+   * Ids of the items the item depends on, invalid entries are ignored
+   */
+  getDependencies(item: any): ItemId[] {
+    const value = item?.[this.field];
+    if (!Array.isArray(value)) {
+      return [];
+    }
+
+    return value.filter(id => typeof id === 'string' || typeof id === 'number');
+  }
+
+  /**
+   * Check whether the item lists any dependencies
+   */
+  hasDependencies(item: any): boolean {
+    return this.getDependencies(item).length > 0;
+  }
+
+  /**
+   * Ids the item still waits for
+   * @param unfinishedIds Ids of all items that are not finished yet
+   */
+  getWaitingFor(item: any, unfinishedIds: Set<ItemId>): ItemId[] {
+    return this.getDependencies(item).filter(id => unfinishedIds.has(id));
+  }
+
+  /**
+   * Check whether the item waits for an unfinished item
+   */
+  isBlocked(item: any, unfinishedIds: Set<ItemId>): boolean {
+    return this.getDependencies(item).some(id => unfinishedIds.has(id));
+  }
+
+  /**
+   * Make sure the dependencies of an item are a list of ids, an empty
+   * spreadsheet cell lists none
+   * @throws Error if the field holds anything else
+   */
+  validate(item: any): void {
+    const value = item?.[this.field];
+    if (value === undefined || value === null || value === '') {
+      return;
+    }
+
+    if (!Array.isArray(value) || !value.every(id => typeof id === 'string' || typeof id === 'number')) {
+      throw new Error(`Invalid ${this.field}: expected a list of item ids`);
+    }
+  }
+
+  /**
+   * Make sure no items depend on each other in a circle
+   * @throws Error naming the ids that form a cycle
+   */
+  assertAcyclic(items: any[]): void {
+    const itemsById = new Map(items.map(item => [this.ids.getId(item), item]));
+    const visited = new Set<ItemId>();
+    const path: ItemId[] = [];
+    const onPath = new Set<ItemId>();
+
+    const visit = (id: ItemId) => {
+      if (onPath.has(id)) {
+        const cycle = [...path.slice(path.indexOf(id)), id];
+        throw new Error(`Dependency cycle: ${cycle.join(' -> ')}`);
+      }
+
+      if (visited.has(id)) {
+        return;
+      }
+
+      path.push(id);
+      onPath.add(id);
+      for (const dependency of this.getDependencies(itemsById.get(id))) {
+        if (itemsById.has(dependency)) {
+          visit(dependency);
+        }
+      }
+      path.pop();
+      onPath.delete(id);
+      visited.add(id);
+    };
+
+    for (const id of itemsById.keys()) {
+      if (id !== undefined) {
+        visit(id);
+      }
+    }
+  }
+
+  /**
+   * Return a copy of the item whose dependencies refer to renamed ids
+   * @param idMap Previous id to new id, ids not in the map are kept
+   */
+  remap(item: any, idMap: Map<ItemId, ItemId>): any {
+    if (!this.hasDependencies(item)) {
+      return item;
+    }
+
+    return { ...item, [this.field]: this.getDependencies(item).map(id => idMap.get(id) ?? id) };
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Item ID Generator - Assigns stable identifiers to queue items
+ */
+
+import { randomUUID } from 'crypto';
+import { ItemIdConfig } from '../config/types.js';
+
+/**
+ * Identifier of a queue item
+ */
+export type ItemId = string | number;
+
+/**
+ * Default field that holds the item identifier
+ */
+export const DEFAULT_ID_FIELD = 'id';
+
+/**
+ * Generates item identifiers using a UUID or a monotonic counter
+ */
+export class ItemIdGenerator {
+  readonly field: string;
+  readonly strategy: 'uuid' | 'counter';
+  private counter = 0;
+
+  constructor(config?: ItemIdConfig) {
+    this.field = config?.field || DEFAULT_ID_FIELD;
+    this.strategy = config?.strategy || 'uuid';
+  }
+
+  /**
+   * Advance the counter past any numeric identifiers already in use
+   */
+  observe(items: any[]): void {
+    for (const item of items) {
+      const id = this.getId(item);
+      if (typeof id === 'number' && id > this.counter) {
+        this.counter = id;
+      }
+    }
+  }
+
+  /**
+   * Return a copy of the item carrying a freshly generated identifier
+   */
+  assign(item: any): any {
+    const { [this.field]: _previous, ...rest } = item;
+    return { [this.field]: this.nextId(), ...rest };
+  }
+
+  /**
+   * Return a copy of the item without its identifier
+   */
+  strip(item: any): any {
+    const { [this.field]: _previous, ...rest } = item;
+    return rest;
+  }
+
+  /**
+   * Return the item unchanged if it has an identifier, otherwise assign one
+   */
+  ensure(item: any): any {
+    return this.getId(item) === undefined ? this.assign(item) : item;
+  }
+
+  /**
+   * Read the identifier of an item
+   */
+  getId(item: any): ItemId | undefined {
+    const id = item?.[this.field];
+    return typeof id === 'string' || typeof id === 'number' ? id : undefined;
+  }
+
+  /**
+   * Generate the next identifier
+   */
+  private nextId(): ItemId {
+    if (this.strategy === 'counter') {
+      this.counter += 1;
+      return this.counter;
+    }
+
+    return randomUUID();
+  }
+}
\ No newline at end of file
@@ -0,0 +1,181 @@
+/**
+ * Lease Store - Tracks items handed out under a visibility timeout
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { writeFileAtomic } from '../utils/atomic-file.js';
+import { FileLock } from '../utils/file-lock.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * An item that has been handed out but not yet acknowledged
+ */
+export interface Lease {
+  token: string;
+  item: any;
+  expiresAt: number;
+}
+
+/**
+ * Keeps leased items invisible until they are acked, nacked or expire
+ *
+ * With a lease file the leases survive a restart of the server. The file is
+ * read before and written after every task run through `runExclusive` under
+ * a lock file, so processes sharing a queue see each other's leases and
+ * requeue them once they expire.
+ */
+export class LeaseStore {
+  private leases = new Map<string, Lease>();
+  private readonly lock: FileLock | null;
+  private isChanged = false;
+
+  /**
+   * Create a new lease store
+   * @param visibilityTimeoutMs How long a lease stays valid in milliseconds
+   * @param filepath File keeping the leases, leases are only held in memory if not given
+   */
+  constructor(
+    private visibilityTimeoutMs: number,
+    private readonly filepath?: string
+  ) {
+    this.lock = filepath ? new FileLock(`${filepath}.lock`) : null;
+  }
+
+  /**
+   * Create the directory of the lease file and restore the leases kept in it
+   */
+  async initialize(): Promise<void> {
+    if (!this.filepath) {
+      return;
+    }
+
+    await fs.mkdir(path.dirname(this.filepath), { recursive: true });
+    await this.runExclusive(async () => {
+      if (this.leases.size > 0) {
+        logger.info(`Restored ${this.leases.size} leases from ${this.filepath}`);
+      }
+    });
+  }
+
+  /**
+   * Run a task on the leases as they are in the lease file, writing back what
+   * it changed once it succeeded. The changes of a failed task are discarded
+   * with the next read, like those of a rolled back source.
+   */
+  async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    if (!this.lock) {
+      return task();
+    }
+
+    return this.lock.runExclusive(async () => {
+      await this.read();
+      const result = await task();
+      if (this.isChanged) {
+        await this.write();
+      }
+      return result;
+    });
+  }
+
+  /**
+   * Time in milliseconds at which a lease created at the given time expires
+   */
+  getExpiresAt(now: number): number {
+    return now + this.visibilityTimeoutMs;
+  }
+
+  /**
+   * Lease an item and return the new lease
+   * @param expiresAt Time in milliseconds the lease expires, a full visibility timeout from now by default
+   */
+  create(item: any, expiresAt = this.getExpiresAt(Date.now())): Lease {
+    const lease: Lease = {
+      token: randomUUID(),
+      item,
+      expiresAt
+    };
+
+    this.leases.set(lease.token, lease);
+    this.isChanged = true;
+    return lease;
+  }
+
+  /**
+   * Remove an active lease and return it, or null if unknown or expired
+   */
+  release(token: string): Lease | null {
+    const lease = this.leases.get(token);
+
+    if (!lease || lease.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    this.leases.delete(token);
+    this.isChanged = true;
+    return lease;
+  }
+
+  /**
+   * Remove and return all expired leases, oldest first
+   */
+  takeExpired(): Lease[] {
+    const now = Date.now();
+    const expired: Lease[] = [];
+
+    for (const lease of this.leases.values()) {
+      if (lease.expiresAt <= now) {
+        expired.push(lease);
+      }
+    }
+
+    for (const lease of expired) {
+      this.leases.delete(lease.token);
+      this.isChanged = true;
+    }
+
+    return expired;
+  }
+
+  /**
+   * Items of all leases, oldest first
+   */
+  items(): any[] {
+    return [...this.leases.values()].map(lease => lease.item);
+  }
+
+  /**
+   * Number of active leases
+   */
+  get size(): number {
+    return this.leases.size;
+  }
+
+  /**
+   * Replace the leases by those in the lease file, none if it does not exist yet
+   */
+  private async read(): Promise<void> {
+    let leases: Lease[];
+    try {
+      leases = JSON.parse(await fs.readFile(this.filepath as string, 'utf-8'));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        logger.error(`Failed to read leases from ${this.filepath}`, error);
+        throw new Error(`Failed to read leases from ${this.filepath}`);
+      }
+      leases = [];
+    }
+
+    this.leases = new Map((Array.isArray(leases) ? leases : []).map(lease => [lease.token, lease]));
+    this.isChanged = false;
+  }
+
+  /**
+   * Write all leases to the lease file
+   */
+  private async write(): Promise<void> {
+    await writeFileAtomic(this.filepath as string, JSON.stringify([...this.leases.values()], null, 2));
+    this.isChanged = false;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,140 @@
+/**
+ * Item Lifecycle - Tracks the status of items that stay in the queue until they are finished
+ */
+
+/**
+ * Statuses an item passes through, from being queued to being finished
+ */
+export const ITEM_STATUSES = ['pending', 'in_progress', 'done', 'failed', 'cancelled'] as const;
+
+export type ItemStatus = typeof ITEM_STATUSES[number];
+
+/**
+ * Default field that holds the status of an item
+ */
+export const DEFAULT_STATUS_FIELD = 'status';
+
+/**
+ * Field that records when an item last entered each status
+ */
+const TIMESTAMP_FIELDS: Record<ItemStatus, string> = {
+  pending: 'queuedAt',
+  in_progress: 'startedAt',
+  done: 'completedAt',
+  failed: 'failedAt',
+  cancelled: 'cancelledAt'
+};
+
+/**
+ * Field that holds the time the lease of an in-progress item expires
+ */
+const LEASE_EXPIRES_AT_FIELD = 'leaseExpiresAt';
+
+/**
+ * Reads and changes the status of items
+ *
+ * Items without a valid status are pending. Get moves an item to in_progress
+ * and it is finished once it is done or cancelled. Every change stamps the
+ * time onto the item, so a data file reads like a task board. A leased item
+ * also carries the time its lease expires, so the item is handed back even if
+ * the lease itself was lost with a restart.
+ */
+export class ItemLifecycle {
+  readonly field: string;
+
+  constructor(field?: string) {
+    this.field = field || DEFAULT_STATUS_FIELD;
+  }
+
+  /**
+   * Fields written by the lifecycle, the status, its timestamps and the lease expiry
+   */
+  get fields(): string[] {
+    return [this.field, ...Object.values(TIMESTAMP_FIELDS), LEASE_EXPIRES_AT_FIELD];
+  }
+
+  /**
+   * Status of the item, pending if it has none
+   */
+  getStatus(item: any): ItemStatus {
+    const value = item?.[this.field];
+    return ITEM_STATUSES.includes(value) ? value : 'pending';
+  }
+
+  /**
+   * Check whether the item waits to be handed out
+   */
+  isPending(item: any): boolean {
+    return this.getStatus(item) === 'pending';
+  }
+
+  /**
+   * Check whether the item is being worked on or waits for it
+   */
+  isOpen(item: any): boolean {
+    const status = this.getStatus(item);
+    return status === 'pending' || status === 'in_progress';
+  }
+
+  /**
+   * Check whether the item was finished, items waiting for it may then proceed
+   */
+  isFinished(item: any): boolean {
+    const status = this.getStatus(item);
+    return status === 'done' || status === 'cancelled';
+  }
+
+  /**
+   * Time in milliseconds at which the item was last queued, or null if it was not stamped
+   */
+  getQueuedAt(item: any): number | null {
+    const value = item?.[TIMESTAMP_FIELDS.pending];
+    const time = typeof value === 'string' ? new Date(value).getTime() : NaN;
+    return Number.isNaN(time) ? null : time;
+  }
+
+  /**
+   * Time in milliseconds at which the lease of the item expires, or null if it is not leased
+   */
+  getLeaseExpiresAt(item: any): number | null {
+    const value = item?.[LEASE_EXPIRES_AT_FIELD];
+    const time = typeof value === 'string' ? new Date(value).getTime() : NaN;
+    return Number.isNaN(time) ? null : time;
+  }
+
+  /**
+   * Check whether the item is in progress under a lease that has expired
+   */
+  isLeaseExpired(item: any, now: number): boolean {
+    const expiresAt = this.getLeaseExpiresAt(item);
+    return this.getStatus(item) === 'in_progress' && expiresAt !== null && expiresAt <= now;
+  }
+
+  /**
+   * Return a copy of the item in the given status, stamped with the time
+   *
+   * The lease expiry is only kept on an item that is started under a lease.
+   * @param leaseExpiresAt Time in milliseconds the lease of a started item expires
+   */
+  transition(item: any, status: ItemStatus, now: number, leaseExpiresAt?: number): any {
+    const changedItem = { ...item, [this.field]: status, [TIMESTAMP_FIELDS[status]]: new Date(now).toISOString() };
+    delete changedItem[LEASE_EXPIRES_AT_FIELD];
+
+    if (status === 'in_progress' && leaseExpiresAt !== undefined) {
+      changedItem[LEASE_EXPIRES_AT_FIELD] = new Date(leaseExpiresAt).toISOString();
+    }
+
+    return changedItem;
+  }
+
+  /**
+   * Make sure the status of an item is one of the known ones
+   * @throws Error if the field holds anything else
+   */
+  validate(item: any): void {
+    const value = item?.[this.field];
+    if (value !== undefined && !ITEM_STATUSES.includes(value)) {
+      throw new Error(`Invalid ${this.field}: ${value}, expected one of ${ITEM_STATUSES.join(', ')}`);
+    }
+  }
+}
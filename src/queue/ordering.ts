@@ -0,0 +1,125 @@
+/**
+ * Queue Ordering - Decides where items are inserted and which end is served
+ */
+
+import { OrderingConfig } from '../config/types.js';
+
+/**
+ * Default field that holds the priority of an item
+ */
+const DEFAULT_PRIORITY_FIELD = 'priority';
+
+/**
+ * Applies the configured fifo, lifo or priority ordering to a list of items
+ */
+export class QueueOrdering {
+  readonly mode: 'fifo' | 'lifo' | 'priority';
+  private readonly field: string;
+  private readonly sign: number;
+
+  constructor(config?: OrderingConfig) {
+    this.mode = config?.mode || 'fifo';
+    this.field = config?.field || DEFAULT_PRIORITY_FIELD;
+    this.sign = config?.order === 'desc' ? -1 : 1;
+  }
+
+  /**
+   * Map a requested read direction to the end of the list it is served from
+   */
+  resolveDirection(direction: 'front' | 'back'): 'front' | 'back' {
+    if (this.mode !== 'lifo') {
+      return direction;
+    }
+
+    // A lifo queue serves its newest item, which sits at the back
+    return direction === 'front' ? 'back' : 'front';
+  }
+
+  /**
+   * Find the index at which an item has to be inserted
+   *
+   * In priority mode the item is placed before items of equal priority when
+   * pushed to the front and after them when pushed to the back, so equal
+   * priorities are served in insertion order.
+   */
+  findInsertIndex(items: any[], item: any, position: 'front' | 'back'): number {
+    if (this.mode !== 'priority') {
+      return position === 'front' ? 0 : items.length;
+    }
+
+    let low = 0;
+    let high = items.length;
+
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      const comparison = this.compare(items[middle], item);
+
+      if (comparison < 0 || (comparison === 0 && position === 'back')) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+
+    return low;
+  }
+
+  /**
+   * Return the items in serving order, keeping insertion order among equals
+   */
+  sort(items: any[]): any[] {
+    if (this.mode !== 'priority') {
+      return items;
+    }
+
+    return [...items].sort((a, b) => this.compare(a, b));
+  }
+
+  /**
+   * Check whether the items are already in serving order
+   */
+  isSorted(items: any[]): boolean {
+    if (this.mode !== 'priority') {
+      return true;
+    }
+
+    return items.every((item, index) => index === 0 || this.compare(items[index - 1], item) <= 0);
+  }
+
+  /**
+   * Check whether the item at index is ordered correctly against its neighbours
+   */
+  isInPlace(items: any[], index: number): boolean {
+    if (this.mode !== 'priority') {
+      return true;
+    }
+
+    const isAfterPrevious = index === 0 || this.compare(items[index - 1], items[index]) <= 0;
+    const isBeforeNext = index === items.length - 1 || this.compare(items[index], items[index + 1]) <= 0;
+    return isAfterPrevious && isBeforeNext;
+  }
+
+  /**
+   * Numeric priority of an item, or null if it has none
+   */
+  getPriority(item: any): number | null {
+    const value = item?.[this.field];
+    return typeof value === 'number' ? value : null;
+  }
+
+  /**
+   * Compare two items by priority, items without a numeric priority go last
+   */
+  private compare(a: any, b: any): number {
+    const first = a?.[this.field];
+    const second = b?.[this.field];
+    const hasFirst = typeof first === 'number';
+    const hasSecond = typeof second === 'number';
+
+    if (!hasFirst || !hasSecond) {
+      return Number(!hasFirst) - Number(!hasSecond);
+    }
+
+    return (first - second) * this.sign;
+  }
+}
\ No newline at end of file
@@ -2,10 +2,63 @@
  * Queue Manager - Core queue operations and state management
  */
 
+import { z } from 'zod';
 import { QueueConfig } from '../config/types.js';
 import { QueueLoader } from '../loaders/index.js';
+import { LeaseStore } from './lease-store.js';
+import { ItemId, ItemIdGenerator } from './id-generator.js';
+import { QueueOrdering } from './ordering.js';
+import { ItemAvailability, PushOptions } from './availability.js';
+import { BlockedItem, ItemDependencies } from './dependencies.js';
+import { ItemClaims } from './claims.js';
+import { ItemLifecycle, ItemStatus } from './lifecycle.js';
+import { RetryPolicy } from './retry-policy.js';
+import { DeadLetterStore } from './dead-letter-store.js';
+import { ItemFacets, QueueStatistics, QueueStats } from './statistics.js';
+import { compileItemSchema, ItemValidationResult, validateWithSchema } from '../schema/item-schema.js';
+import { applyMergePatch } from '../utils/merge-patch.js';
+import { Mutex } from '../utils/mutex.js';
 import * as logger from '../utils/logger.js';
 
+/**
+ * Default visibility timeout for leased items in seconds
+ */
+const DEFAULT_VISIBILITY_TIMEOUT = 300;
+
+/**
+ * Result of leasing an item from the queue
+ */
+export interface LeaseResult {
+  itemId: ItemId | undefined;
+  leaseToken: string;
+  expiresAt: string;
+  item: any;
+}
+
+/**
+ * A page of items read from the queue
+ */
+export interface ItemPage {
+  items: any[];
+  total: number;
+}
+
+/**
+ * Selects the items to remove, by id, by field equality or both
+ */
+export interface RemoveCriteria {
+  id?: ItemId;
+  where?: Record<string, any>;
+}
+
+/**
+ * Options for removing items
+ */
+export interface RemoveOptions {
+  dryRun?: boolean;
+  maxRemove?: number;
+}
+
 export interface QueueManager {
   /**
    * Initialize the queue
@@ -13,24 +66,134 @@ export interface QueueManager {
   initialize(): Promise<void>;
   
   /**
-   * Get the next item from the front of the queue
+   * Get the next item from the front of the queue, claimed by the worker if one is given
    */
-  getFront(): Promise<any | null>;
+  getFront(worker?: string): Promise<any | null>;
   
   /**
-   * Get the next item from the back of the queue
+   * Get the next item from the back of the queue, claimed by the worker if one is given
    */
-  getBack(): Promise<any | null>;
+  getBack(worker?: string): Promise<any | null>;
   
   /**
-   * Add an item to the front of the queue
+   * Get up to count ready items from the front of the queue, claimed by the worker if one is given
    */
-  pushFront(item: any): Promise<void>;
+  getFrontBatch(count: number, worker?: string): Promise<any[]>;
   
   /**
-   * Add an item to the back of the queue
+   * Get up to count ready items from the back of the queue, claimed by the worker if one is given
+   */
+  getBackBatch(count: number, worker?: string): Promise<any[]>;
+  
+  /**
+   * Read up to count items from the front or back without removing them
+   */
+  peek(direction: 'front' | 'back', count: number): Promise<any[]>;
+  
+  /**
+   * Read a page of items without removing them, only those in the given statuses if any are given
+   */
+  list(offset: number, limit: number, statuses?: ItemStatus[]): Promise<ItemPage>;
+  
+  /**
+   * Lease the next item from the front of the queue, claimed by the worker if one is given
+   */
+  leaseFront(worker?: string): Promise<LeaseResult | null>;
+  
+  /**
+   * Lease the next item from the back of the queue, claimed by the worker if one is given
+   */
+  leaseBack(worker?: string): Promise<LeaseResult | null>;
+  
+  /**
+   * Lease up to count ready items from the front of the queue, claimed by the worker if one is given
+   */
+  leaseFrontBatch(count: number, worker?: string): Promise<LeaseResult[]>;
+  
+  /**
+   * Lease up to count ready items from the back of the queue, claimed by the worker if one is given
+   */
+  leaseBackBatch(count: number, worker?: string): Promise<LeaseResult[]>;
+  
+  /**
+   * Acknowledge a leased item, removing it permanently or marking it done
+   */
+  ack(leaseToken: string): Promise<boolean>;
+  
+  /**
+   * Return a leased item to the queue, counting a failed attempt if retries are configured
+   */
+  nack(leaseToken: string): Promise<boolean>;
+  
+  /**
+   * Add an item to the front of the queue and return its assigned id
+   */
+  pushFront(item: any, options?: PushOptions): Promise<ItemId>;
+  
+  /**
+   * Add an item to the back of the queue and return its assigned id
+   */
+  pushBack(item: any, options?: PushOptions): Promise<ItemId>;
+  
+  /**
+   * Add several items to the front of the queue, keeping their order, and
+   * return their assigned ids. Either all items are added or none.
+   */
+  pushFrontBatch(items: any[], options?: PushOptions): Promise<ItemId[]>;
+  
+  /**
+   * Add several items to the back of the queue and return their assigned ids.
+   * Either all items are added or none.
+   */
+  pushBackBatch(items: any[], options?: PushOptions): Promise<ItemId[]>;
+  
+  /**
+   * When the next item becomes available, as an ISO timestamp, or null if
+   * an item is available now or the queue is empty
+   */
+  getNextAvailableAt(): Promise<string | null>;
+  
+  /**
+   * Queued items that wait for unfinished items, with the ids they wait for
+   */
+  listBlocked(): Promise<BlockedItem[]>;
+  
+  /**
+   * Apply a merge patch to a queued item and return the updated item,
+   * or null if no queued item has the id
+   */
+  updateItem(id: ItemId, patch: Record<string, any>): Promise<any | null>;
+  
+  /**
+   * Assign a queued item to a worker, or release its claim if the worker is null,
+   * and return the updated item or null if no queued item has the id
+   */
+  assignItem(id: ItemId, worker: string | null): Promise<any | null>;
+  
+  /**
+   * Check whether items stay in the queue with a status until they are finished
+   */
+  hasStatuses(): boolean;
+  
+  /**
+   * Mark a pending or in-progress item done and return it, or null if no item has the id
+   */
+  completeItem(id: ItemId): Promise<any | null>;
+  
+  /**
+   * Report that working on an item failed and return it, or null if no item has the id
+   */
+  failItem(id: ItemId): Promise<any | null>;
+  
+  /**
+   * Cancel a pending or in-progress item and return it, or null if no item has the id
+   */
+  cancelItem(id: ItemId): Promise<any | null>;
+  
+  /**
+   * Remove all queued items matching the criteria and return them
    */
-  pushBack(item: any): Promise<void>;
+  removeWhere(criteria: RemoveCriteria, options?: RemoveOptions): Promise<any[]>;
   
   /**
    * Replace all items with items from template
@@ -48,9 +211,51 @@ export interface QueueManager {
   addBackFromTemplate(templateId: string): Promise<void>;
   
   /**
-   * Validate an item against the current schema
+   * Store the queued items as a new template and return how many were saved
+   */
+  saveAsTemplate(templateId: string, overwrite?: boolean): Promise<number>;
+  
+  /**
+   * Read a page of the items that ran out of attempts
+   */
+  listDeadLetters(offset: number, limit: number): Promise<ItemPage>;
+  
+  /**
+   * Move dead letters back to the queue with their attempts reset and
+   * return how many were moved, all of them if no ids are given
+   */
+  requeueDeadLetters(ids?: ItemId[]): Promise<number>;
+  
+  /**
+   * Delete dead letters permanently and return how many were deleted,
+   * all of them if no ids are given
+   */
+  purgeDeadLetters(ids?: ItemId[]): Promise<number>;
+  
+  /**
+   * Report the size of the queue, its breakdown and how fast items move
    */
-  validateItem(item: any): boolean;
+  getStats(): Promise<QueueStats>;
+  
+  /**
+   * Get the compiled item schema, or null if items are not constrained
+   */
+  getItemSchema(): z.ZodTypeAny | null;
+  
+  /**
+   * Validate an item against the current schema and apply defaults
+   */
+  validateItem(item: any): ItemValidationResult;
+  
+  /**
+   * Write a queue held in memory back to its source
+   */
+  flush(): Promise<void>;
+  
+  /**
+   * Stop background work and flush the queue before the server exits
+   */
+  close(): Promise<void>;
 }
 
 /**
@@ -59,12 +264,52 @@ export interface QueueManager {
 export class DefaultQueueManager implements QueueManager {
   private items: any[] = [];
   private initialized = false;
-  private itemTemplate: Record<string, string> | null = null;
+  private itemSchema: z.ZodTypeAny | null = null;
+  private leases: LeaseStore;
+  private ids: ItemIdGenerator;
+  private ordering: QueueOrdering;
+  private availability: ItemAvailability;
+  private dependencies: ItemDependencies;
+  private claims: ItemClaims;
+  private lifecycle: ItemLifecycle | null = null;
+  private retry: RetryPolicy | null = null;
+  private deadLetters: DeadLetterStore | null = null;
+  private statistics: QueueStatistics;
+  private mutex = new Mutex();
+  private syncedItems: any[] = [];
+  private stopWatching: (() => void) | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
 
   constructor(
     private config: QueueConfig,
     private loader: QueueLoader
-  ) {}
+  ) {
+    const visibilityTimeout = config.visibilityTimeout || DEFAULT_VISIBILITY_TIMEOUT;
+    
+    // Leased items leave a stored queue, the lease file keeps them across restarts.
+    // A queue held in memory writes them back on flush, items with a status stay stored
+    const isLeaseFileUsed = !config.inMemory && !config.lifecycle && config.loader !== 'memory';
+    this.leases = new LeaseStore(visibilityTimeout * 1000, isLeaseFileUsed ? config.leaseFile : undefined);
+    this.ids = new ItemIdGenerator(config.itemId);
+    this.ordering = new QueueOrdering(config.ordering);
+    this.availability = new ItemAvailability(config.availableAtField);
+    this.dependencies = new ItemDependencies(this.ids, config.dependsOnField);
+    this.claims = new ItemClaims(config.assigneeField, config.claimedAtField);
+    
+    if (config.lifecycle) {
+      this.lifecycle = new ItemLifecycle(config.lifecycle.statusField);
+    }
+    
+    if (config.retry) {
+      this.retry = new RetryPolicy(config.retry);
+      this.deadLetters = new DeadLetterStore(config.retry.deadLetterFile || 'dead-letters.json', this.ids);
+    }
+    
+    this.statistics = new QueueStatistics(item => this.describeItem(item), {
+      statuses: this.lifecycle !== null,
+      priorities: this.ordering.mode === 'priority'
+    });
+  }
 
   /**
    * Initialize the queue by loading items from the source if needed
@@ -75,13 +320,50 @@ export class DefaultQueueManager implements QueueManager {
     }
 
     await this.loader.initialize();
+    await this.leases.initialize();
+    await this.deadLetters?.initialize();
     
-    // Get item schema from loader or configuration
-    this.itemTemplate = this.loader.getItemSchema() || this.config.itemTemplate || null;
+    // Compile the item schema once, a configured JSON Schema takes precedence
+    // over the template. The id, the claim, the status and the retry count are
+    // managed by the queue, dependencies are checked on their own as they may
+    // be left out
+    const itemTemplate = this.config.itemSchema
+      ? null
+      : this.loader.getItemSchema() || this.config.itemTemplate || null;
+    const managedFields = [this.ids.field, this.dependencies.field, ...this.getStateFields()];
+    this.itemSchema = compileItemSchema(itemTemplate, this.config.itemSchema || null, managedFields);
     
-    // Load initial items if needed
-    if (this.config.inMemory) {
-      this.items = await this.loader.getItems();
+    // Load initial items and make sure every item carries an id
+    await this.loader.runExclusive(async () => {
+      const existingItems = await this.loader.getItems();
+      this.ids.observe(existingItems);
+      const identifiedItems = existingItems.map(item => this.ids.ensure(item));
+      
+      const isUnchanged = identifiedItems.every((item, index) => item === existingItems[index])
+        && this.ordering.isSorted(identifiedItems);
+      
+      if (this.config.inMemory) {
+        this.items = this.ordering.sort(identifiedItems);
+        this.syncedItems = [...existingItems];
+      } else if (!isUnchanged) {
+        await this.loader.saveItems(this.ordering.sort(identifiedItems));
+      }
+      
+      // Items are counted once, later changes adjust the counts
+      this.statistics.reset(identifiedItems, Date.now());
+    });
+    
+    // Pick up edits made to the source while the queue is held in memory
+    if (this.config.watch && this.loader.watch) {
+      this.stopWatching = await this.loader.watch(items => this.applyExternalChange(items));
+    }
+    
+    // Write the queue held in memory back to the source at a regular interval
+    if (this.config.inMemory && this.config.flushInterval) {
+      this.flushTimer = setInterval(() => {
+        this.flush().catch(error => logger.error('Failed to flush queue', error));
+      }, this.config.flushInterval * 1000);
+      this.flushTimer.unref();
     }
     
     this.initialized = true;
@@ -89,185 +371,1319 @@ export class DefaultQueueManager implements QueueManager {
   }
 
   /**
-   * Get the next item from the front of the queue
+   * Get the next item from the front of the queue, claimed by the worker if one is given
    */
-  async getFront(): Promise<any | null> {
-    // In memory mode - use the in-memory array
-    if (this.config.inMemory) {
-      if (this.items.length === 0) {
-        return null;
+  async getFront(worker?: string): Promise<any | null> {
+    return this.exclusive(async () => (await this.nextItems('front', 1, worker))[0] ?? null);
+  }
+
+  /**
+   * Get the next item from the back of the queue, claimed by the worker if one is given
+   */
+  async getBack(worker?: string): Promise<any | null> {
+    return this.exclusive(async () => (await this.nextItems('back', 1, worker))[0] ?? null);
+  }
+
+  /**
+   * Get up to count ready items from the front of the queue, claimed by the worker if one is given
+   */
+  async getFrontBatch(count: number, worker?: string): Promise<any[]> {
+    return this.exclusive(() => this.nextItems('front', count, worker));
+  }
+
+  /**
+   * Get up to count ready items from the back of the queue, claimed by the worker if one is given
+   */
+  async getBackBatch(count: number, worker?: string): Promise<any[]> {
+    return this.exclusive(() => this.nextItems('back', count, worker));
+  }
+
+  /**
+   * Read up to count items from the front or back without removing them
+   */
+  async peek(direction: 'front' | 'back', count: number): Promise<any[]> {
+    return this.exclusive(async () => {
+      await this.requeueExpiredLeases();
+      
+      if (count <= 0) {
+        return [];
       }
       
-      return this.items.shift() || null;
-    }
-    
-    // Direct mode - delegate to loader
-    return await this.loader.removeItemFront();
+      const end = this.ordering.resolveDirection(direction);
+      
+      // Items with a status stay stored once handed out, only pending ones come next
+      if (this.lifecycle) {
+        const items = this.config.inMemory ? this.items : await this.loader.getItems();
+        const pendingItems = items.filter(item => this.isPending(item));
+        return end === 'front'
+          ? pendingItems.slice(0, count)
+          : pendingItems.slice(-count).reverse();
+      }
+      
+      // In memory mode - read from the in-memory array
+      if (this.config.inMemory) {
+        return end === 'front'
+          ? this.items.slice(0, count)
+          : this.items.slice(-count).reverse();
+      }
+      
+      // Direct mode - delegate to loader
+      return await this.loader.peekItems(end, count);
+    });
   }
 
   /**
-   * Get the next item from the back of the queue
+   * Read a page of items without removing them, only those in the given statuses if any are given
    */
-  async getBack(): Promise<any | null> {
-    // In memory mode - use the in-memory array
-    if (this.config.inMemory) {
-      if (this.items.length === 0) {
-        return null;
+  async list(offset: number, limit: number, statuses?: ItemStatus[]): Promise<ItemPage> {
+    return this.exclusive(async () => {
+      await this.requeueExpiredLeases();
+      
+      if (statuses) {
+        const lifecycle = this.requireLifecycle();
+        const items = this.config.inMemory ? this.items : await this.loader.getItems();
+        const matchingItems = items.filter(item => statuses.includes(lifecycle.getStatus(item)));
+        return {
+          items: matchingItems.slice(offset, offset + limit),
+          total: matchingItems.length
+        };
       }
       
-      return this.items.pop() || null;
-    }
-    
-    // Direct mode - delegate to loader
-    return await this.loader.removeItemBack();
+      // In memory mode - read from the in-memory array
+      if (this.config.inMemory) {
+        return {
+          items: this.items.slice(offset, offset + limit),
+          total: this.items.length
+        };
+      }
+      
+      // Direct mode - delegate to loader
+      return {
+        items: await this.loader.listItems(offset, limit),
+        total: await this.loader.countItems()
+      };
+    });
+  }
+
+  /**
+   * Lease the next item from the front of the queue, claimed by the worker if one is given
+   */
+  async leaseFront(worker?: string): Promise<LeaseResult | null> {
+    return this.exclusive(async () => this.leaseItem((await this.nextItems('front', 1, worker, true))[0] ?? null));
+  }
+
+  /**
+   * Lease the next item from the back of the queue, claimed by the worker if one is given
+   */
+  async leaseBack(worker?: string): Promise<LeaseResult | null> {
+    return this.exclusive(async () => this.leaseItem((await this.nextItems('back', 1, worker, true))[0] ?? null));
+  }
+
+  /**
+   * Lease up to count ready items from the front of the queue, claimed by the worker if one is given
+   */
+  async leaseFrontBatch(count: number, worker?: string): Promise<LeaseResult[]> {
+    return this.exclusive(async () => (await this.nextItems('front', count, worker, true)).map(item => this.leaseItem(item) as LeaseResult));
+  }
+
+  /**
+   * Lease up to count ready items from the back of the queue, claimed by the worker if one is given
+   */
+  async leaseBackBatch(count: number, worker?: string): Promise<LeaseResult[]> {
+    return this.exclusive(async () => (await this.nextItems('back', count, worker, true)).map(item => this.leaseItem(item) as LeaseResult));
+  }
+
+  /**
+   * Acknowledge a leased item, removing it permanently or marking it done
+   */
+  async ack(leaseToken: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      await this.requeueExpiredLeases();
+      
+      const lease = this.leases.release(leaseToken);
+      if (!lease) {
+        return false;
+      }
+      
+      // An item with a status stays stored, unless it was finished by id meanwhile
+      if (this.lifecycle) {
+        const items = this.config.inMemory ? this.items : await this.loader.getItems();
+        const index = this.findInProgressIndex(items, lease.item);
+        if (index !== -1) {
+          await this.writeStoredItem(items, index, this.lifecycle.transition(items[index], 'done', Date.now()));
+        }
+      }
+      
+      return true;
+    });
+  }
+
+  /**
+   * Return a leased item to the queue, counting a failed attempt if retries are configured
+   */
+  async nack(leaseToken: string): Promise<boolean> {
+    return this.exclusive(async () => {
+      await this.requeueExpiredLeases();
+      
+      const lease = this.leases.release(leaseToken);
+      if (!lease) {
+        return false;
+      }
+      
+      await this.handleFailure(lease.item);
+      return true;
+    });
   }
 
   /**
    * Add an item to the front of the queue
    */
-  async pushFront(item: any): Promise<void> {
-    // Validate the item
-    if (!this.validateItem(item)) {
-      throw new Error('Item does not match the required schema');
-    }
-    
-    // In memory mode - use the in-memory array
-    if (this.config.inMemory) {
-      this.items.unshift(item);
-      return;
-    }
-    
-    // Direct mode - delegate to loader
-    await this.loader.addItemFront(item);
+  async pushFront(item: any, options: PushOptions = {}): Promise<ItemId> {
+    return this.exclusive(async () => {
+      await this.observeStoredIds();
+      const scheduledItem = this.availability.schedule(this.requireValidItem(item), options, Date.now());
+      const identifiedItem = this.markPending(this.ids.assign(scheduledItem));
+      await this.requireAcyclic([identifiedItem]);
+      await this.insertItem(identifiedItem, 'front');
+      this.statistics.recordAdded(1);
+      
+      return identifiedItem[this.ids.field];
+    });
   }
 
   /**
    * Add an item to the back of the queue
    */
-  async pushBack(item: any): Promise<void> {
-    // Validate the item
-    if (!this.validateItem(item)) {
-      throw new Error('Item does not match the required schema');
-    }
-    
-    // In memory mode - use the in-memory array
-    if (this.config.inMemory) {
-      this.items.push(item);
-      return;
-    }
-    
-    // Direct mode - delegate to loader
-    await this.loader.addItemBack(item);
+  async pushBack(item: any, options: PushOptions = {}): Promise<ItemId> {
+    return this.exclusive(async () => {
+      await this.observeStoredIds();
+      const scheduledItem = this.availability.schedule(this.requireValidItem(item), options, Date.now());
+      const identifiedItem = this.markPending(this.ids.assign(scheduledItem));
+      await this.requireAcyclic([identifiedItem]);
+      await this.insertItem(identifiedItem, 'back');
+      this.statistics.recordAdded(1);
+      
+      return identifiedItem[this.ids.field];
+    });
   }
 
   /**
-   * Replace all items with items from template
+   * Add several items to the front of the queue, keeping their order
    */
-  async replaceFromTemplate(templateId: string): Promise<void> {
-    if (!await this.loader.hasTemplate(templateId)) {
-      throw new Error(`Template ${templateId} not found`);
-    }
-    
-    const newItems = await this.loader.loadTemplate(templateId);
-    
-    // In memory mode - update the in-memory array
-    if (this.config.inMemory) {
-      this.items = newItems;
-      return;
-    }
-    
-    // Direct mode - delegate to loader
-    await this.loader.saveItems(newItems);
+  async pushFrontBatch(items: any[], options: PushOptions = {}): Promise<ItemId[]> {
+    return this.exclusive(() => this.pushItems(items, 'front', options));
   }
 
   /**
-   * Add items from template to the front
+   * Add several items to the back of the queue
    */
-  async addFrontFromTemplate(templateId: string): Promise<void> {
-    if (!await this.loader.hasTemplate(templateId)) {
-      throw new Error(`Template ${templateId} not found`);
-    }
-    
-    const newItems = await this.loader.loadTemplate(templateId);
-    
-    // In memory mode - update the in-memory array
-    if (this.config.inMemory) {
-      this.items.unshift(...newItems);
-      return;
-    }
-    
-    // Direct mode - load current items, combine with new items, and save
-    const currentItems = await this.loader.getItems();
-    await this.loader.saveItems([...newItems, ...currentItems]);
+  async pushBackBatch(items: any[], options: PushOptions = {}): Promise<ItemId[]> {
+    return this.exclusive(() => this.pushItems(items, 'back', options));
   }
 
   /**
-   * Add items from template to the back
+   * When the next item becomes available, or null if one is available now or the queue is empty,
+   * items waiting for their dependencies are left out
    */
-  async addBackFromTemplate(templateId: string): Promise<void> {
-    if (!await this.loader.hasTemplate(templateId)) {
-      throw new Error(`Template ${templateId} not found`);
+  async getNextAvailableAt(): Promise<string | null> {
+    return this.exclusive(async () => {
+      await this.requeueExpiredLeases();
+      
+      const items = this.config.inMemory ? this.items : await this.loader.getItems();
+      const unfinishedIds = await this.getUnfinishedIds(items);
+      const unblockedItems = items.filter(item => this.isPending(item) && !this.dependencies.isBlocked(item, unfinishedIds));
+      
+      const next = this.availability.getNextAvailableAt(unblockedItems, Date.now());
+      return next === null ? null : new Date(next).toISOString();
+    });
+  }
+
+  /**
+   * Queued items that wait for unfinished items, with the ids they wait for
+   */
+  async listBlocked(): Promise<BlockedItem[]> {
+    return this.exclusive(async () => {
+      await this.requeueExpiredLeases();
+      
+      const items = this.config.inMemory ? this.items : await this.loader.getItems();
+      const unfinishedIds = await this.getUnfinishedIds(items);
+      
+      return items
+        .filter(item => this.isPending(item) && this.dependencies.isBlocked(item, unfinishedIds))
+        .map(item => ({ item, waitingFor: this.dependencies.getWaitingFor(item, unfinishedIds) }));
+    });
+  }
+
+  /**
+   * Apply a merge patch to a queued item and return the updated item
+   *
+   * The claim, the status with its timestamps and the retry count are kept by
+   * the queue as the item is assigned, handed out and finished, so a patch may
+   * not touch them.
+   */
+  async updateItem(id: ItemId, patch: Record<string, any>): Promise<any | null> {
+    if (this.ids.field in patch && patch[this.ids.field] !== id) {
+      throw new Error(`The ${this.ids.field} field of an item cannot be changed`);
     }
     
-    const newItems = await this.loader.loadTemplate(templateId);
-    
-    // In memory mode - update the in-memory array
-    if (this.config.inMemory) {
-      this.items.push(...newItems);
-      return;
+    const stateField = this.getStateFields().find(field => field in patch);
+    if (stateField !== undefined) {
+      throw new Error(`The ${stateField} field of an item is managed by the queue and cannot be updated`);
     }
     
-    // Direct mode - load current items, combine with new items, and save
-    const currentItems = await this.loader.getItems();
-    await this.loader.saveItems([...currentItems, ...newItems]);
+    return this.exclusive(() => this.patchItem(id, patch));
   }
 
   /**
-   * Validate an item against the current schema
+   * Assign a queued item to a worker, or release its claim if the worker is null
    */
-  validateItem(item: any): boolean {
-    // If no item template is defined, any item is valid
-    if (!this.itemTemplate) {
-      return true;
+  async assignItem(id: ItemId, worker: string | null): Promise<any | null> {
+    return this.exclusive(() => this.patchItem(id, this.claims.createAssignPatch(worker, Date.now())));
+  }
+
+  /**
+   * Check whether items stay in the queue with a status until they are finished
+   */
+  hasStatuses(): boolean {
+    return this.lifecycle !== null;
+  }
+
+  /**
+   * Mark a pending or in-progress item done
+   */
+  async completeItem(id: ItemId): Promise<any | null> {
+    return await this.finishItem(id, 'done');
+  }
+
+  /**
+   * Report that working on an item failed
+   *
+   * With retries configured the item is retried after its backoff until it
+   * runs out of attempts, otherwise it is marked failed.
+   */
+  async failItem(id: ItemId): Promise<any | null> {
+    return this.exclusive(async () => {
+      await this.requeueExpiredLeases();
+      
+      const items = this.config.inMemory ? this.items : await this.loader.getItems();
+      const index = this.findOpenIndex(items, id);
+      if (index === -1) {
+        return null;
+      }
+      
+      return await this.failStoredItem(items, index, true);
+    });
+  }
+
+  /**
+   * Cancel a pending or in-progress item
+   */
+  async cancelItem(id: ItemId): Promise<any | null> {
+    return await this.finishItem(id, 'cancelled');
+  }
+
+  /**
+   * Remove all queued items matching the criteria and return them
+   */
+  async removeWhere(criteria: RemoveCriteria, options: RemoveOptions = {}): Promise<any[]> {
+    return this.exclusive(async () => {
+      await this.requeueExpiredLeases();
+      
+      if (criteria.id === undefined && criteria.where === undefined) {
+        throw new Error('Either an id or a filter is required to remove items');
+      }
+      
+      // An empty filter would match every item
+      if (criteria.where !== undefined && Object.keys(criteria.where).length === 0) {
+        throw new Error('The filter must name at least one field');
+      }
+      
+      const items = this.config.inMemory ? this.items : await this.loader.getItems();
+      const removedItems = items.filter(item => this.matchesCriteria(item, criteria));
+      
+      if (options.maxRemove !== undefined && removedItems.length > options.maxRemove) {
+        throw new Error(`${removedItems.length} items match, but at most ${options.maxRemove} may be removed at once`);
+      }
+      
+      if (options.dryRun || removedItems.length === 0) {
+        return removedItems;
+      }
+      
+      const remainingItems = items.filter(item => !removedItems.includes(item));
+      this.statistics.removed(removedItems, Date.now());
+      
+      // In memory mode - update the in-memory array
+      if (this.config.inMemory) {
+        this.items = remainingItems;
+        return removedItems;
+      }
+      
+      // Direct mode - save the remaining items
+      await this.loader.saveItems(remainingItems);
+      return removedItems;
+    });
+  }
+
+  /**
+   * Replace all items with items from template
+   */
+  async replaceFromTemplate(templateId: string): Promise<void> {
+    return this.exclusive(async () => {
+      const newItems = await this.loadTemplateItems(templateId);
+      this.dependencies.assertAcyclic([...this.leases.items(), ...newItems]);
+      this.recordTemplate(templateId, newItems, true);
+      
+      // In memory mode - update the in-memory array
+      if (this.config.inMemory) {
+        this.items = this.ordering.sort(newItems);
+        return;
+      }
+      
+      // Direct mode - delegate to loader
+      await this.loader.saveItems(this.ordering.sort(newItems));
+    });
+  }
+
+  /**
+   * Add items from template to the front
+   */
+  async addFrontFromTemplate(templateId: string): Promise<void> {
+    return this.exclusive(async () => {
+      const newItems = await this.loadTemplateItems(templateId);
+      await this.requireAcyclic(newItems);
+      this.recordTemplate(templateId, newItems, false);
+      
+      // In memory mode - update the in-memory array
+      if (this.config.inMemory) {
+        this.items = this.ordering.sort([...newItems, ...this.items]);
+        return;
+      }
+      
+      // Direct mode - load current items, combine with new items, and save
+      const currentItems = await this.loader.getItems();
+      await this.loader.saveItems(this.ordering.sort([...newItems, ...currentItems]));
+    });
+  }
+
+  /**
+   * Add items from template to the back
+   */
+  async addBackFromTemplate(templateId: string): Promise<void> {
+    return this.exclusive(async () => {
+      const newItems = await this.loadTemplateItems(templateId);
+      await this.requireAcyclic(newItems);
+      this.recordTemplate(templateId, newItems, false);
+      
+      // In memory mode - update the in-memory array
+      if (this.config.inMemory) {
+        this.items = this.ordering.sort([...this.items, ...newItems]);
+        return;
+      }
+      
+      // Direct mode - load current items, combine with new items, and save
+      const currentItems = await this.loader.getItems();
+      await this.loader.saveItems(this.ordering.sort([...currentItems, ...newItems]));
+    });
+  }
+
+  /**
+   * Store the queued items as a template, without their ids so every load
+   * assigns fresh ones. Items others depend on keep their ids, which are
+   * renamed along with the dependencies on load.
+   */
+  async saveAsTemplate(templateId: string, overwrite = false): Promise<number> {
+    return this.exclusive(async () => {
+      if (!overwrite && await this.loader.hasTemplate(templateId)) {
+        throw new Error(`Template ${templateId} already exists`);
+      }
+      
+      const items = this.config.inMemory ? this.items : await this.loader.getItems();
+      const referencedIds = new Set(items.flatMap(item => this.dependencies.getDependencies(item)));
+      const templateItems = items.map(item => referencedIds.has(this.ids.getId(item) as ItemId) ? item : this.ids.strip(item));
+      
+      await this.loader.saveTemplate(templateId, templateItems);
+      return items.length;
+    });
+  }
+
+  /**
+   * Read a page of the items that ran out of attempts
+   */
+  async listDeadLetters(offset: number, limit: number): Promise<ItemPage> {
+    return this.exclusive(() => this.requireDeadLetters().list(offset, limit));
+  }
+
+  /**
+   * Move dead letters to the back of the queue with their attempts reset
+   */
+  async requeueDeadLetters(ids?: ItemId[]): Promise<number> {
+    return this.exclusive(async () => {
+      const items = await this.requireDeadLetters().take(ids);
+      
+      for (const item of items) {
+        await this.insertItem(this.markPending(this.retry ? this.retry.reset(item) : item), 'back');
+      }
+      this.statistics.recordAdded(items.length);
+      
+      return items.length;
+    });
+  }
+
+  /**
+   * Delete dead letters permanently
+   */
+  async purgeDeadLetters(ids?: ItemId[]): Promise<number> {
+    return this.exclusive(async () => {
+      const items = await this.requireDeadLetters().take(ids);
+      return items.length;
+    });
+  }
+
+  /**
+   * Report the size of the queue, its breakdown and how fast items move
+   *
+   * The counts are kept up to date as the queue changes rather than read
+   * from the source. Changes other processes make to a shared source are
+   * only picked up when the source is watched.
+   */
+  async getStats(): Promise<QueueStats> {
+    return this.exclusive(async () => {
+      await this.requeueExpiredLeases();
+      return this.statistics.snapshot(Date.now(), this.leases.items().length);
+    });
+  }
+
+  /**
+   * Write a queue held in memory back to its source, if it changed since the last sync
+   */
+  async flush(): Promise<void> {
+    if (!this.config.inMemory) {
+      return;
+    }
+    
+    return this.exclusive(async () => {
+      const items = this.pendingItems();
+      if (JSON.stringify(items) === JSON.stringify(this.syncedItems)) {
+        return;
+      }
+      
+      await this.loader.saveItems(items);
+      this.syncedItems = [...items];
+      logger.debug(`Flushed ${items.length} items to the queue source`);
+    });
+  }
+
+  /**
+   * Stop background work and flush the queue before the server exits
+   */
+  async close(): Promise<void> {
+    this.stopWatching?.();
+    this.stopWatching = null;
+    
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    
+    await this.flush();
+    await this.loader.close();
+  }
+
+  /**
+   * Bring the in-memory queue in line with a source edited from outside
+   *
+   * Without local changes since the last sync the source is simply reloaded.
+   * Otherwise the conflict policy decides: reload lets the source win, merge
+   * keeps local changes on top of the edit and reject keeps the queue as it is.
+   */
+  private async applyExternalChange(sourceItems: any[]): Promise<void> {
+    return this.exclusive(async () => {
+      this.ids.observe(sourceItems);
+      const externalItems = sourceItems.map(item => this.ids.ensure(item));
+      const conflict = this.config.watch?.conflict || 'reload';
+      const localItems = this.pendingItems();
+      const hasLocalChanges = JSON.stringify(localItems) !== JSON.stringify(this.syncedItems);
+      
+      if (hasLocalChanges && conflict === 'reject') {
+        logger.warn(`Rejected external change to the queue source, keeping ${this.items.length} items in memory`);
+        return;
+      }
+      
+      // Leased items stay with their consumers instead of being queued twice,
+      // unless they stay stored with their status anyway
+      const leasedItems = this.lifecycle ? [] : this.leases.items();
+      const leasedIds = new Set(leasedItems.map(item => this.ids.getId(item)));
+      const isQueued = (item: any) => !leasedIds.has(this.ids.getId(item));
+      
+      if (hasLocalChanges && conflict === 'merge') {
+        const mergedItems = this.mergeItems(this.syncedItems, localItems, externalItems);
+        this.items = this.ordering.sort(mergedItems.filter(isQueued));
+        logger.info(`Merged external change to the queue source, ${this.items.length} items queued`);
+      } else {
+        if (hasLocalChanges) {
+          logger.warn('Reloading the queue source discards local changes');
+        }
+        this.items = this.ordering.sort(externalItems.filter(isQueued));
+        logger.info(`Reloaded ${this.items.length} items after external change to the queue source`);
+      }
+      
+      this.syncedItems = [...externalItems];
+      this.statistics.reset(this.items, Date.now());
+    });
+  }
+
+  /**
+   * Items that are not acknowledged yet, leased items first
+   *
+   * Leased items are part of what is persisted so they survive a restart.
+   * Items with a status are stored while they are leased already.
+   */
+  private pendingItems(): any[] {
+    return this.lifecycle ? [...this.items] : [...this.leases.items(), ...this.items];
+  }
+
+  /**
+   * Merge local and external changes made since the last sync, matching items by id
+   *
+   * Items taken from the queue locally stay gone, items changed locally keep
+   * the local version and items pushed locally are appended to the edited queue.
+   */
+  private mergeItems(baseItems: any[], localItems: any[], externalItems: any[]): any[] {
+    const baseById = new Map(baseItems.map(item => [this.ids.getId(item), JSON.stringify(item)]));
+    const localById = new Map(localItems.map(item => [this.ids.getId(item), item]));
+    const externalIds = new Set(externalItems.map(item => this.ids.getId(item)));
+    const merged: any[] = [];
+    
+    for (const item of externalItems) {
+      const id = this.ids.getId(item);
+      const localItem = localById.get(id);
+      
+      if (!localItem) {
+        if (!baseById.has(id)) {
+          merged.push(item);
+        }
+      } else if (baseById.has(id) && JSON.stringify(localItem) !== baseById.get(id)) {
+        merged.push(localItem);
+      } else {
+        merged.push(item);
+      }
+    }
+    
+    for (const item of localItems) {
+      const id = this.ids.getId(item);
+      if (!baseById.has(id) && !externalIds.has(id)) {
+        merged.push(item);
+      }
+    }
+    
+    return merged;
+  }
+
+  /**
+   * Run a queue operation exclusively, both within this process and against
+   * other processes sharing the loader's source and the lease file
+   */
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    return this.mutex.runExclusive(() => this.loader.runExclusive(() => this.leases.runExclusive(task)));
+  }
+
+  /**
+   * Load the items of a template, each with a freshly assigned id
+   *
+   * Dependencies between items of the template refer to the ids in the
+   * template and are renamed to the assigned ones.
+   */
+  private async loadTemplateItems(templateId: string): Promise<any[]> {
+    if (!await this.loader.hasTemplate(templateId)) {
+      throw new Error(`Template ${templateId} not found`);
     }
     
-    // Check that item is an object
-    if (typeof item !== 'object' || item === null) {
+    const templateItems = await this.loader.loadTemplate(templateId);
+    templateItems.forEach(item => this.dependencies.validate(item));
+    
+    await this.observeStoredIds();
+    return this.assignIds(templateItems).map(item => this.markPending(item));
+  }
+
+  /**
+   * Move the id counter past the ids issued by other processes sharing the store
+   *
+   * Counter ids are only unique across processes if every push reads the
+   * stored and leased items first. A queue held in memory is owned by this
+   * process, and uuids need no coordination.
+   */
+  private async observeStoredIds(): Promise<void> {
+    if (this.ids.strategy !== 'counter' || this.config.inMemory) {
+      return;
+    }
+    
+    this.ids.observe([...await this.loader.getItems(), ...this.leases.items()]);
+  }
+
+  /**
+   * Give items that are added together fresh ids, dependencies between them
+   * are renamed along with the ids they refer to
+   */
+  private assignIds(items: any[]): any[] {
+    const newItems = items.map(item => this.ids.assign(item));
+    const idMap = new Map<ItemId, ItemId>();
+    items.forEach((item, index) => {
+      const id = this.ids.getId(item);
+      if (id !== undefined) {
+        idMap.set(id, this.ids.getId(newItems[index]) as ItemId);
+      }
+    });
+    
+    return newItems.map(item => this.dependencies.remap(item, idMap));
+  }
+
+  /**
+   * Validate a batch of items and add it to the queue with a single write
+   *
+   * Every item is checked before the first one is stored, so an invalid item
+   * rejects the whole batch. Items may depend on each other by the ids they
+   * carry, which are replaced by fresh ones.
+   * @throws Error naming the position of the first invalid item
+   */
+  private async pushItems(items: any[], position: 'front' | 'back', options: PushOptions): Promise<ItemId[]> {
+    const now = Date.now();
+    const validItems = items.map((item, index) => {
+      try {
+        return this.availability.schedule(this.requireValidItem(item), options, now);
+      } catch (error) {
+        throw new Error(`Item ${index} of the batch is invalid: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+    
+    await this.observeStoredIds();
+    const identifiedItems = this.assignIds(validItems).map(item => this.markPending(item));
+    await this.requireAcyclic(identifiedItems);
+    await this.insertItems(identifiedItems, position);
+    this.statistics.recordAdded(identifiedItems.length);
+    
+    return identifiedItems.map(item => item[this.ids.field]);
+  }
+
+  /**
+   * Make sure adding the items to the queue creates no dependency cycle
+   * @throws Error naming the ids that form a cycle
+   */
+  private async requireAcyclic(newItems: any[]): Promise<void> {
+    // A new cycle has to pass through a new item that depends on another one
+    if (!newItems.some(item => this.dependencies.hasDependencies(item))) {
+      return;
+    }
+    
+    const items = this.config.inMemory ? this.items : await this.loader.getItems();
+    this.dependencies.assertAcyclic([...this.leases.items(), ...items, ...newItems]);
+  }
+
+  /**
+   * Ids of all items that are not finished yet: queued, leased or given up on
+   * @param queuedItems The queued items
+   */
+  private async getUnfinishedIds(queuedItems: any[]): Promise<Set<ItemId>> {
+    // Dead letters only matter if an item waits for something
+    const deadItems = this.deadLetters && queuedItems.some(item => this.dependencies.hasDependencies(item))
+      ? (await this.deadLetters.list(0, Infinity)).items
+      : [];
+    
+    // Items with a status stay stored once they are finished
+    const openItems = queuedItems.filter(item => !this.lifecycle || !this.lifecycle.isFinished(item));
+    
+    const ids = [...openItems, ...this.leases.items(), ...deadItems].map(item => this.ids.getId(item));
+    return new Set(ids.filter((id): id is ItemId => id !== undefined));
+  }
+
+  /**
+   * Find up to count items closest to the given end that are pending and
+   * available, wait for no unfinished item and may be taken by the worker
+   *
+   * All items are judged by the queue as it is, so an item never becomes
+   * ready because an item it waits for is part of the same batch.
+   * @returns The indexes of the items, the one closest to the end first
+   */
+  private async findReadyIndexes(items: any[], end: 'front' | 'back', count: number, now: number, worker?: string): Promise<number[]> {
+    const unfinishedIds = await this.getUnfinishedIds(items);
+    const isReady = (item: any) => this.isPending(item)
+      && this.availability.isAvailable(item, now)
+      && this.claims.isClaimableBy(item, worker)
+      && !this.dependencies.isBlocked(item, unfinishedIds);
+    
+    const indexes: number[] = [];
+    for (let step = 0; step < items.length && indexes.length < count; step++) {
+      const index = end === 'front' ? step : items.length - 1 - step;
+      if (isReady(items[index])) {
+        indexes.push(index);
+      }
+    }
+    
+    return indexes;
+  }
+
+  /**
+   * Find the position of the item with the given id
+   */
+  private findItemIndex(items: any[], id: ItemId): number {
+    return items.findIndex(item => this.ids.getId(item) === id);
+  }
+
+  /**
+   * Check whether an item has the requested id and all filter values
+   */
+  private matchesCriteria(item: any, criteria: RemoveCriteria): boolean {
+    if (criteria.id !== undefined && this.ids.getId(item) !== criteria.id) {
       return false;
     }
     
-    // Validate each field against the template
-    for (const [key, type] of Object.entries(this.itemTemplate)) {
-      // Check if property exists
-      if (!(key in item)) {
-        return false;
+    return Object.entries(criteria.where || {}).every(([key, value]) =>
+      typeof value === 'object' && value !== null
+        ? JSON.stringify(item[key]) === JSON.stringify(value)
+        : item[key] === value
+    );
+  }
+
+  /**
+   * Apply a merge patch to a queued item and return the updated item, or null if no item has the id
+   */
+  private async patchItem(id: ItemId, patch: Record<string, any>): Promise<any | null> {
+    await this.requeueExpiredLeases();
+    
+    const items = this.config.inMemory ? this.items : await this.loader.getItems();
+    const index = this.findItemIndex(items, id);
+    if (index === -1) {
+      return null;
+    }
+    
+    const updatedItem = this.requireValidItem(applyMergePatch(items[index], patch));
+    const reorderedItems = [...items];
+    reorderedItems[index] = updatedItem;
+    
+    if (this.dependencies.hasDependencies(updatedItem)) {
+      this.dependencies.assertAcyclic([...this.leases.items(), ...reorderedItems]);
+    }
+    
+    this.statistics.changed(items[index], updatedItem, Date.now());
+    
+    // A changed priority may move the item, it then queues behind its new equals
+    const isInPlace = this.ordering.isInPlace(reorderedItems, index);
+    if (!isInPlace) {
+      reorderedItems.splice(index, 1);
+      reorderedItems.splice(this.ordering.findInsertIndex(reorderedItems, updatedItem, 'back'), 0, updatedItem);
+    }
+    
+    // In memory mode - update the in-memory array
+    if (this.config.inMemory) {
+      this.items = reorderedItems;
+      return updatedItem;
+    }
+    
+    // Direct mode - write only the changed item unless it moved
+    if (isInPlace) {
+      await this.loader.replaceItemAt(index, updatedItem);
+    } else {
+      await this.loader.saveItems(reorderedItems);
+    }
+    
+    return updatedItem;
+  }
+
+  /**
+   * Fields holding the state the queue keeps on an item: its claim, its status
+   * with the timestamps and the lease expiry, and its retry count
+   */
+  private getStateFields(): string[] {
+    return [
+      this.claims.field,
+      this.claims.claimedAtField,
+      ...(this.lifecycle ? this.lifecycle.fields : []),
+      ...(this.retry ? [this.retry.field] : [])
+    ];
+  }
+
+  /**
+   * Wrap a taken item in a new lease
+   */
+  private leaseItem(item: any | null): LeaseResult | null {
+    if (item === null) {
+      return null;
+    }
+    
+    // An item with a status carries the expiry of its lease
+    const lease = this.leases.create(item, this.lifecycle?.getLeaseExpiresAt(item) ?? undefined);
+    return {
+      itemId: this.ids.getId(lease.item),
+      leaseToken: lease.token,
+      expiresAt: new Date(lease.expiresAt).toISOString(),
+      item: lease.item
+    };
+  }
+
+  /**
+   * Put items from expired leases back at the front of the queue, an expired
+   * lease counts as a failed attempt
+   */
+  private async requeueExpiredLeases(): Promise<void> {
+    const expired = this.leases.takeExpired();
+    
+    // Restore newest first so the oldest lease ends up at the very front
+    for (const lease of expired.reverse()) {
+      await this.handleFailure(lease.item);
+    }
+    
+    // Items with a status keep the expiry of their lease, which outlives a
+    // lease that was lost with a restart or is held by another process
+    const abandonedCount = this.lifecycle ? await this.failAbandonedItems() : 0;
+    
+    if (expired.length + abandonedCount > 0) {
+      logger.info(`Requeued ${expired.length + abandonedCount} items from expired leases`);
+    }
+  }
+
+  /**
+   * Hand back the stored items that are still in progress after their lease expired
+   * @returns The number of items handed back
+   */
+  private async failAbandonedItems(): Promise<number> {
+    const lifecycle = this.requireLifecycle();
+    const now = Date.now();
+    
+    const items = this.config.inMemory ? this.items : await this.loader.getItems();
+    const abandonedIds = items.filter(item => lifecycle.isLeaseExpired(item, now)).map(item => this.ids.getId(item));
+    
+    // Items may move to the dead letters, so each one is looked up anew
+    for (const id of abandonedIds) {
+      const currentItems = this.config.inMemory ? this.items : await this.loader.getItems();
+      const index = this.findItemIndex(currentItems, id as ItemId);
+      if (index !== -1) {
+        await this.failStoredItem(currentItems, index, false);
+      }
+    }
+    
+    return abandonedIds.length;
+  }
+
+  /**
+   * Requeue expired leases, then remove and return up to count next items,
+   * stamped with the claim of the worker if one is given
+   * @param isLeased Whether the items are handed out under a lease
+   */
+  private async nextItems(direction: 'front' | 'back', count: number, worker?: string, isLeased = false): Promise<any[]> {
+    await this.requeueExpiredLeases();
+    
+    const end = this.ordering.resolveDirection(direction);
+    if (this.lifecycle) {
+      const leaseExpiresAt = isLeased ? this.leases.getExpiresAt(Date.now()) : undefined;
+      const startedItems = await this.startItems(end, count, worker, leaseExpiresAt);
+      this.statistics.recordTaken(startedItems.length);
+      return startedItems;
+    }
+    
+    const items = await this.takeItems(end, count, worker);
+    const now = Date.now();
+    this.statistics.removed(items, now);
+    this.statistics.recordTaken(items.length);
+    return worker === undefined ? items : items.map(item => this.claims.claim(item, worker, now));
+  }
+
+  /**
+   * Mark up to count ready items closest to the given end in progress and
+   * return them, the items stay stored with their status
+   * @param leaseExpiresAt Time in milliseconds the lease of the items expires, if they are leased
+   */
+  private async startItems(end: 'front' | 'back', count: number, worker?: string, leaseExpiresAt?: number): Promise<any[]> {
+    const lifecycle = this.requireLifecycle();
+    const now = Date.now();
+    
+    const items = this.config.inMemory ? this.items : await this.loader.getItems();
+    const indexes = await this.findReadyIndexes(items, end, count, now, worker);
+    const startedItems = indexes.map(index => {
+      const claimedItem = worker === undefined ? items[index] : this.claims.claim(items[index], worker, now);
+      return lifecycle.transition(claimedItem, 'in_progress', now, leaseExpiresAt);
+    });
+    
+    // A single item is written on its own, a batch in one save
+    if (this.config.inMemory || indexes.length === 1) {
+      for (const [position, index] of indexes.entries()) {
+        await this.writeStoredItem(items, index, startedItems[position]);
+      }
+    } else if (indexes.length > 1) {
+      const updatedItems = [...items];
+      indexes.forEach((index, position) => {
+        this.statistics.changed(items[index], startedItems[position], now);
+        updatedItems[index] = startedItems[position];
+      });
+      await this.loader.saveItems(updatedItems);
+    }
+    
+    return startedItems;
+  }
+
+  /**
+   * Give a pending or in-progress item its final status
+   */
+  private async finishItem(id: ItemId, status: 'done' | 'cancelled'): Promise<any | null> {
+    return this.exclusive(async () => {
+      await this.requeueExpiredLeases();
+      
+      const lifecycle = this.requireLifecycle();
+      const items = this.config.inMemory ? this.items : await this.loader.getItems();
+      const index = this.findOpenIndex(items, id);
+      if (index === -1) {
+        return null;
+      }
+      
+      const finishedItem = lifecycle.transition(items[index], status, Date.now());
+      await this.writeStoredItem(items, index, finishedItem);
+      return finishedItem;
+    });
+  }
+
+  /**
+   * Fail a stored item
+   *
+   * With retries configured the item goes back to pending for another attempt
+   * after its backoff, or moves to the dead letters once it ran out of
+   * attempts. Otherwise a reported failure marks the item failed and a handed
+   * back item is simply pending again.
+   * @param isReported Whether the failure was reported rather than the item handed back
+   */
+  private async failStoredItem(items: any[], index: number, isReported: boolean): Promise<any> {
+    const lifecycle = this.requireLifecycle();
+    const now = Date.now();
+    
+    if (!this.retry || !this.deadLetters) {
+      const failedItem = lifecycle.transition(items[index], isReported ? 'failed' : 'pending', now);
+      await this.writeStoredItem(items, index, failedItem);
+      return failedItem;
+    }
+    
+    const failure = this.retry.recordFailure(items[index]);
+    if (failure.exhausted) {
+      const deadItem = lifecycle.transition(failure.item, 'failed', now);
+      await this.deleteStoredItem(items, index);
+      await this.deadLetters.add(deadItem);
+      logger.warn(`Item ${this.ids.getId(deadItem)} moved to the dead letters after ${failure.attempts} attempts`);
+      return deadItem;
+    }
+    
+    const delay = this.retry.getBackoff(failure.attempts);
+    const retriedItem = this.availability.schedule(lifecycle.transition(failure.item, 'pending', now), { delay }, now);
+    await this.writeStoredItem(items, index, retriedItem);
+    return retriedItem;
+  }
+
+  /**
+   * Return an item whose processing failed to the queue
+   *
+   * Without a retry policy the item is simply put back at the front. Otherwise
+   * it is held back for its backoff before it is handed out again, or moves to
+   * the dead letters once it ran out of attempts. An item with a status stays
+   * stored and is only failed if it is still in progress.
+   */
+  private async handleFailure(item: any): Promise<void> {
+    if (this.lifecycle) {
+      const items = this.config.inMemory ? this.items : await this.loader.getItems();
+      const index = this.findInProgressIndex(items, item);
+      if (index !== -1) {
+        await this.failStoredItem(items, index, false);
+      }
+      return;
+    }
+    
+    if (!this.retry || !this.deadLetters) {
+      return await this.restoreItem(item);
+    }
+    
+    const failure = this.retry.recordFailure(item);
+    if (failure.exhausted) {
+      await this.deadLetters.add(failure.item);
+      logger.warn(`Item ${this.ids.getId(item)} moved to the dead letters after ${failure.attempts} attempts`);
+      return;
+    }
+    
+    const delay = this.retry.getBackoff(failure.attempts);
+    await this.restoreItem(this.availability.schedule(failure.item, { delay }, Date.now()));
+  }
+
+  /**
+   * The dead letters of the queue
+   * @throws Error if retries are not configured
+   */
+  private requireDeadLetters(): DeadLetterStore {
+    if (!this.deadLetters) {
+      throw new Error('This queue has no dead letters, configure retry to enable them');
+    }
+    
+    return this.deadLetters;
+  }
+
+  /**
+   * The lifecycle of the items
+   * @throws Error if item statuses are not configured
+   */
+  private requireLifecycle(): ItemLifecycle {
+    if (!this.lifecycle) {
+      throw new Error('Items of this queue have no status, configure lifecycle to enable them');
+    }
+    
+    return this.lifecycle;
+  }
+
+  /**
+   * Check whether an item waits to be handed out, which all queued items do without statuses
+   */
+  private isPending(item: any): boolean {
+    return !this.lifecycle || this.lifecycle.isPending(item);
+  }
+
+  /**
+   * Set the status of a new item to pending if items have statuses
+   */
+  private markPending(item: any): any {
+    return this.lifecycle ? this.lifecycle.transition(item, 'pending', Date.now()) : item;
+  }
+
+  /**
+   * Find the stored item with the given id that is not finished yet
+   * @returns The index of the item, or -1 if no item has the id
+   * @throws Error if the item already has a final status
+   */
+  private findOpenIndex(items: any[], id: ItemId): number {
+    const lifecycle = this.requireLifecycle();
+    const index = this.findItemIndex(items, id);
+    
+    if (index !== -1 && !lifecycle.isOpen(items[index])) {
+      throw new Error(`Item ${id} is already ${lifecycle.getStatus(items[index])}`);
+    }
+    
+    return index;
+  }
+
+  /**
+   * Find the stored version of a handed out item if it is still in progress
+   * under the same lease
+   * @returns The index of the item, or -1 if it is gone, was finished or was handed out again meanwhile
+   */
+  private findInProgressIndex(items: any[], item: any): number {
+    const lifecycle = this.requireLifecycle();
+    const index = items.findIndex(storedItem => this.ids.getId(storedItem) === this.ids.getId(item));
+    
+    return index !== -1
+      && lifecycle.getStatus(items[index]) === 'in_progress'
+      && lifecycle.getLeaseExpiresAt(items[index]) === lifecycle.getLeaseExpiresAt(item) ? index : -1;
+  }
+
+  /**
+   * Replace the stored item at the given position
+   */
+  private async writeStoredItem(items: any[], index: number, item: any): Promise<void> {
+    this.statistics.changed(items[index], item, Date.now());
+    
+    // In memory mode - update the in-memory array
+    if (this.config.inMemory) {
+      this.items[index] = item;
+      return;
+    }
+    
+    // Direct mode - write only the changed item
+    await this.loader.replaceItemAt(index, item);
+  }
+
+  /**
+   * Remove the stored item at the given position
+   */
+  private async deleteStoredItem(items: any[], index: number): Promise<void> {
+    this.statistics.removed([items[index]], Date.now());
+    
+    // In memory mode - update the in-memory array
+    if (this.config.inMemory) {
+      this.items.splice(index, 1);
+      return;
+    }
+    
+    // Direct mode - save the remaining items
+    await this.loader.saveItems(items.filter((_, itemIndex) => itemIndex !== index));
+  }
+
+  /**
+   * What an item is counted under in the statistics
+   */
+  private describeItem(item: any): ItemFacets {
+    const priority = this.ordering.getPriority(item);
+    
+    return {
+      id: this.ids.getId(item),
+      status: this.lifecycle ? this.lifecycle.getStatus(item) : null,
+      priority: priority === null ? null : String(priority),
+      assignee: this.claims.getAssignee(item),
+      isOpen: this.lifecycle ? this.lifecycle.isOpen(item) : true,
+      isWaiting: this.isPending(item),
+      queuedAt: this.lifecycle ? this.lifecycle.getQueuedAt(item) : null
+    };
+  }
+
+  /**
+   * Count the items loaded from a template
+   * @param isReplacing Whether the items replace all queued items
+   */
+  private recordTemplate(templateId: string, newItems: any[], isReplacing: boolean): void {
+    const now = Date.now();
+    
+    if (isReplacing) {
+      this.statistics.reset(newItems, now);
+    } else {
+      this.statistics.stored(newItems, now);
+    }
+    
+    this.statistics.recordAdded(newItems.length);
+    this.statistics.recordTemplate(templateId);
+  }
+
+  /**
+   * Put a previously taken item back at the front without re-validating it
+   */
+  private async restoreItem(item: any): Promise<void> {
+    await this.insertItem(item, 'front');
+  }
+
+  /**
+   * Remove and return up to count ready items closest to the given end of the
+   * queue, items whose not-before time lies in the future, that wait for
+   * unfinished items or that are assigned to another worker, or to any worker
+   * if none is given, are skipped
+   */
+  private async takeItems(end: 'front' | 'back', count: number, worker?: string): Promise<any[]> {
+    const now = Date.now();
+    
+    // In memory mode - use the in-memory array
+    if (this.config.inMemory) {
+      const indexes = await this.findReadyIndexes(this.items, end, count, now, worker);
+      const takenItems = indexes.map(index => this.items[index]);
+      const takenIndexes = new Set(indexes);
+      this.items = this.items.filter((_, index) => !takenIndexes.has(index));
+      return takenItems;
+    }
+    
+    // Direct mode - delegate to loader if the items at the end are available,
+    // wait for nothing and may be taken by the worker
+    const endItems = await this.loader.peekItems(end, count);
+    if (endItems.length === 0) {
+      return [];
+    }
+    
+    const isReady = (item: any) => this.availability.isAvailable(item, now)
+      && this.claims.isClaimableBy(item, worker)
+      && !this.dependencies.hasDependencies(item);
+    if (endItems.every(isReady)) {
+      if (count === 1) {
+        const item = end === 'front'
+          ? await this.loader.removeItemFront()
+          : await this.loader.removeItemBack();
+        return item === null ? [] : [item];
       }
       
-      // Check property type
-      const value = item[key];
-      switch (type.toLowerCase()) {
-        case 'string':
-          if (typeof value !== 'string') return false;
-          break;
-        case 'number':
-          if (typeof value !== 'number') return false;
-          break;
-        case 'boolean':
-          if (typeof value !== 'boolean') return false;
-          break;
-        case 'object':
-          if (typeof value !== 'object' || value === null) return false;
-          break;
-        case 'array':
-          if (!Array.isArray(value)) return false;
-          break;
-        // Add more types as needed
-        default:
-          // Unknown type - assume it's valid
-          break;
-      }
-    }
-    
-    return true;
+      return end === 'front'
+        ? await this.loader.removeItemsFront(count)
+        : await this.loader.removeItemsBack(count);
+    }
+    
+    // Otherwise look further into the queue for items that are ready
+    const items = await this.loader.getItems();
+    const indexes = await this.findReadyIndexes(items, end, count, now, worker);
+    if (indexes.length === 0) {
+      return [];
+    }
+    
+    const takenIndexes = new Set(indexes);
+    await this.loader.saveItems(items.filter((_, index) => !takenIndexes.has(index)));
+    return indexes.map(index => items[index]);
+  }
+
+  /**
+   * Insert an item at the position given by the queue ordering
+   */
+  private async insertItem(item: any, position: 'front' | 'back'): Promise<void> {
+    this.statistics.stored([item], Date.now());
+    
+    // In memory mode - binary insertion keeps the array ordered without re-sorting
+    if (this.config.inMemory) {
+      const index = this.ordering.findInsertIndex(this.items, item, position);
+      this.items.splice(index, 0, item);
+      return;
+    }
+    
+    // Direct mode - only priority ordering needs to look at the stored items
+    if (this.ordering.mode !== 'priority') {
+      return position === 'front'
+        ? await this.loader.addItemFront(item)
+        : await this.loader.addItemBack(item);
+    }
+    
+    const currentItems = await this.loader.getItems();
+    const index = this.ordering.findInsertIndex(currentItems, item, position);
+    await this.loader.insertItemAt(index, item);
+  }
+
+  /**
+   * Insert several items at the positions given by the queue ordering with a
+   * single write, items added to the front keep their order
+   */
+  private async insertItems(items: any[], position: 'front' | 'back'): Promise<void> {
+    this.statistics.stored(items, Date.now());
+    
+    // Inserting the front items last first leaves the first of them in front
+    const insertionOrder = position === 'front' ? [...items].reverse() : items;
+    
+    // In memory mode - binary insertion keeps the array ordered without re-sorting
+    if (this.config.inMemory) {
+      for (const item of insertionOrder) {
+        this.items.splice(this.ordering.findInsertIndex(this.items, item, position), 0, item);
+      }
+      return;
+    }
+    
+    // Direct mode - only priority ordering needs to look at the stored items
+    if (this.ordering.mode !== 'priority') {
+      return position === 'front'
+        ? await this.loader.addItemsFront(items)
+        : await this.loader.addItemsBack(items);
+    }
+    
+    const currentItems = await this.loader.getItems();
+    for (const item of insertionOrder) {
+      currentItems.splice(this.ordering.findInsertIndex(currentItems, item, position), 0, item);
+    }
+    await this.loader.saveItems(currentItems);
+  }
+
+  /**
+   * Get the compiled item schema, or null if items are not constrained
+   */
+  getItemSchema(): z.ZodTypeAny | null {
+    return this.itemSchema;
+  }
+
+  /**
+   * Validate an item against the current schema and apply defaults
+   */
+  validateItem(item: any): ItemValidationResult {
+    return validateWithSchema(this.itemSchema, item);
+  }
+
+  /**
+   * Validate an item and return it with defaults applied
+   * @throws Error listing every invalid field
+   */
+  private requireValidItem(item: any): any {
+    const result = this.validateItem(item);
+    if (!result.valid) {
+      throw new Error(`Item does not match the required schema:\n${result.errors.join('\n')}`);
+    }
+    
+    this.dependencies.validate(result.item);
+    this.lifecycle?.validate(result.item);
+    
+    return result.item;
   }
 } 
\ No newline at end of file
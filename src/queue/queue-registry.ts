@@ -0,0 +1,123 @@
+/**
+ * Queue Registry - Holds the named queues served by one server
+ */
+
+import { QueueConfig, QueueMincerConfig } from '../config/types.js';
+import { resolveQueuePaths } from '../config/paths.js';
+import { createLoader } from '../loaders/index.js';
+import { DefaultQueueManager, QueueManager } from './queue-manager.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Name under which the single `queue` configuration is registered
+ */
+export const DEFAULT_QUEUE_NAME = 'default';
+
+/**
+ * Named collection of queue managers
+ */
+export class QueueRegistry {
+  private managers = new Map<string, QueueManager>();
+
+  /**
+   * Register a queue manager under a name
+   */
+  register(name: string, manager: QueueManager): void {
+    if (this.managers.has(name)) {
+      throw new Error(`Queue ${name} is already registered`);
+    }
+
+    this.managers.set(name, manager);
+  }
+
+  /**
+   * Initialize all registered queues
+   */
+  async initialize(): Promise<void> {
+    for (const [name, manager] of this.managers) {
+      logger.info(`Initializing queue: ${name}`);
+      await manager.initialize();
+    }
+  }
+
+  /**
+   * Close all registered queues, flushing those held in memory
+   */
+  async close(): Promise<void> {
+    for (const [name, manager] of this.managers) {
+      try {
+        await manager.close();
+      } catch (error) {
+        logger.error(`Failed to close queue: ${name}`, error);
+      }
+    }
+  }
+
+  /**
+   * Get a queue by name, or the default queue if no name is given
+   */
+  get(name?: string): QueueManager {
+    const queueName = name || this.getDefaultName();
+    const manager = this.managers.get(queueName);
+
+    if (!manager) {
+      throw new Error(`Unknown queue: ${queueName}`);
+    }
+
+    return manager;
+  }
+
+  /**
+   * Get the names of all registered queues
+   */
+  getNames(): string[] {
+    return [...this.managers.keys()];
+  }
+
+  /**
+   * Name of the queue used when a tool is not bound to a specific queue
+   */
+  getDefaultName(): string {
+    if (this.managers.has(DEFAULT_QUEUE_NAME) || this.managers.size !== 1) {
+      return DEFAULT_QUEUE_NAME;
+    }
+
+    return this.getNames()[0];
+  }
+}
+
+/**
+ * Collect all queue configurations by name
+ * @param config The QueueMincer configuration
+ * @returns Map of queue name to queue configuration
+ */
+export function getQueueConfigs(config: QueueMincerConfig): Record<string, QueueConfig> {
+  const queueConfigs: Record<string, QueueConfig> = { ...config.queues };
+
+  if (config.queue) {
+    if (queueConfigs[DEFAULT_QUEUE_NAME]) {
+      throw new Error(`Queue name "${DEFAULT_QUEUE_NAME}" is reserved for the queue configuration`);
+    }
+    queueConfigs[DEFAULT_QUEUE_NAME] = config.queue;
+  }
+
+  return queueConfigs;
+}
+
+/**
+ * Create a loader and queue manager for every configured queue
+ * @param config The QueueMincer configuration
+ * @param baseDir Directory against which relative storage paths are resolved
+ * @returns A registry holding all queues
+ */
+export function createQueueRegistry(config: QueueMincerConfig, baseDir: string): QueueRegistry {
+  const registry = new QueueRegistry();
+
+  for (const [name, queueConfig] of Object.entries(getQueueConfigs(config))) {
+    const resolvedConfig = resolveQueuePaths(queueConfig, name, baseDir);
+    const loader = createLoader(resolvedConfig, name);
+    registry.register(name, new DefaultQueueManager(resolvedConfig, loader));
+  }
+
+  return registry;
+}
\ No newline at end of file
@@ -0,0 +1,96 @@
+/**
+ * Retry Policy - Counts failed attempts and spaces out retries
+ */
+
+import { RetryConfig } from '../config/types.js';
+
+/**
+ * Default field that counts the failed attempts of an item
+ */
+export const DEFAULT_ATTEMPTS_FIELD = 'attempts';
+
+/**
+ * Default number of attempts before an item is given up on
+ */
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Default delay before the first retry in seconds
+ */
+const DEFAULT_BACKOFF = 30;
+
+/**
+ * Default factor by which the delay grows with every further attempt
+ */
+const DEFAULT_BACKOFF_FACTOR = 2;
+
+/**
+ * Default upper limit of the delay in seconds
+ */
+const DEFAULT_MAX_BACKOFF = 3600;
+
+/**
+ * Outcome of recording a failed attempt
+ */
+export interface FailedAttempt {
+  item: any;
+  attempts: number;
+  exhausted: boolean;
+}
+
+/**
+ * Decides whether a failed item is retried and how long it waits
+ *
+ * The number of failed attempts is stored on the item, so it survives being
+ * written to and read back from any source.
+ */
+export class RetryPolicy {
+  readonly field: string;
+  private readonly maxAttempts: number;
+  private readonly backoff: number;
+  private readonly backoffFactor: number;
+  private readonly maxBackoff: number;
+
+  constructor(config: RetryConfig) {
+    this.field = config.attemptsField || DEFAULT_ATTEMPTS_FIELD;
+    this.maxAttempts = config.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+    this.backoff = config.backoff ?? DEFAULT_BACKOFF;
+    this.backoffFactor = config.backoffFactor || DEFAULT_BACKOFF_FACTOR;
+    this.maxBackoff = config.maxBackoff ?? DEFAULT_MAX_BACKOFF;
+  }
+
+  /**
+   * Number of failed attempts recorded on the item
+   */
+  getAttempts(item: any): number {
+    const attempts = Number(item?.[this.field]);
+    return Number.isInteger(attempts) && attempts > 0 ? attempts : 0;
+  }
+
+  /**
+   * Return a copy of the item with one more failed attempt
+   */
+  recordFailure(item: any): FailedAttempt {
+    const attempts = this.getAttempts(item) + 1;
+    return {
+      item: { ...item, [this.field]: attempts },
+      attempts,
+      exhausted: attempts >= this.maxAttempts
+    };
+  }
+
+  /**
+   * Delay in seconds before the item is retried after the given number of failed attempts
+   */
+  getBackoff(attempts: number): number {
+    return Math.min(this.backoff * this.backoffFactor ** Math.max(attempts - 1, 0), this.maxBackoff);
+  }
+
+  /**
+   * Return a copy of the item without recorded attempts, to give it a fresh start
+   */
+  reset(item: any): any {
+    const { [this.field]: _previous, ...rest } = item;
+    return rest;
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Queue Statistics - Keeps counts of the stored items up to date as the queue changes
+ */
+
+import { ItemId } from './id-generator.js';
+
+/**
+ * Shortest period throughput is averaged over, so the first calls after a
+ * start do not report inflated rates
+ */
+const MIN_THROUGHPUT_PERIOD = 60 * 1000;
+
+/**
+ * What an item is counted under
+ */
+export interface ItemFacets {
+  id: ItemId | undefined;
+  status: string | null;
+  priority: string | null;
+  assignee: string | null;
+  isOpen: boolean;
+  isWaiting: boolean;
+  queuedAt: number | null;
+}
+
+/**
+ * Which breakdowns apply to the items of a queue
+ */
+export interface StatisticsOptions {
+  statuses: boolean;
+  priorities: boolean;
+}
+
+/**
+ * Statistics of a queue, as reported to clients
+ */
+export interface QueueStats {
+  length: number;
+  leased: number;
+  byStatus?: Record<string, number>;
+  byPriority?: Record<string, number>;
+  byAssignee: Record<string, number>;
+  unassigned: number;
+  oldestItemAge: number | null;
+  throughput: {
+    since: string;
+    added: number;
+    taken: number;
+    addedPerMinute: number;
+    takenPerMinute: number;
+  };
+  activeTemplate: string | null;
+}
+
+/**
+ * Counts the stored items by status, priority and assignee
+ *
+ * The counts are adjusted whenever the queue stores, removes or changes items
+ * instead of being computed from the source on every request. Items are
+ * counted once when the queue starts and again when the source is reloaded.
+ * The length only counts open items, leaving out finished ones that stay
+ * stored with their status. The age of the oldest item only considers items
+ * that wait to be handed out.
+ */
+export class QueueStatistics {
+  private length = 0;
+  private byStatus = new Map<string, number>();
+  private byPriority = new Map<string, number>();
+  private byAssignee = new Map<string, number>();
+  private unassigned = 0;
+  private waitingSince = new Map<ItemId, number>();
+  private added = 0;
+  private taken = 0;
+  private activeTemplate: string | null = null;
+  private readonly startedAt: number;
+
+  constructor(
+    private describe: (item: any) => ItemFacets,
+    private options: StatisticsOptions,
+    now = Date.now()
+  ) {
+    this.startedAt = now;
+  }
+
+  /**
+   * Count the items from scratch, keeping the waiting times of items that are still there
+   */
+  reset(items: any[], now: number): void {
+    const previousTimes = this.waitingSince;
+
+    this.length = 0;
+    this.byStatus.clear();
+    this.byPriority.clear();
+    this.byAssignee.clear();
+    this.unassigned = 0;
+    this.waitingSince = new Map();
+
+    for (const item of items) {
+      const id = this.describe(item).id;
+      this.count(item, 1, now, id === undefined ? undefined : previousTimes.get(id));
+    }
+  }
+
+  /**
+   * Count items that were stored
+   */
+  stored(items: any[], now: number): void {
+    for (const item of items) {
+      this.count(item, 1, now);
+    }
+  }
+
+  /**
+   * Stop counting items that left the store
+   */
+  removed(items: any[], now: number): void {
+    for (const item of items) {
+      this.count(item, -1, now);
+    }
+  }
+
+  /**
+   * Count a stored item that was changed, an item that keeps waiting keeps its waiting time
+   */
+  changed(before: any, after: any, now: number): void {
+    const id = this.describe(before).id;
+    const since = id === undefined ? undefined : this.waitingSince.get(id);
+
+    this.count(before, -1, now);
+    this.count(after, 1, now, since);
+  }
+
+  /**
+   * Record items added to the queue by a push or a template
+   */
+  recordAdded(count: number): void {
+    this.added += count;
+  }
+
+  /**
+   * Record items handed out by a get or a lease
+   */
+  recordTaken(count: number): void {
+    this.taken += count;
+  }
+
+  /**
+   * Remember the template that was loaded last
+   */
+  recordTemplate(templateId: string): void {
+    this.activeTemplate = templateId;
+  }
+
+  /**
+   * Report the current statistics
+   * @param now The current time
+   * @param leased Number of items that are leased at the moment
+   */
+  snapshot(now: number, leased: number): QueueStats {
+    const minutes = Math.max(now - this.startedAt, MIN_THROUGHPUT_PERIOD) / 60000;
+
+    let oldest: number | null = null;
+    for (const since of this.waitingSince.values()) {
+      oldest = oldest === null ? since : Math.min(oldest, since);
+    }
+
+    return {
+      length: this.length,
+      leased,
+      ...(this.options.statuses ? { byStatus: Object.fromEntries(this.byStatus) } : {}),
+      ...(this.options.priorities ? { byPriority: Object.fromEntries(this.byPriority) } : {}),
+      byAssignee: Object.fromEntries(this.byAssignee),
+      unassigned: this.unassigned,
+      oldestItemAge: oldest === null ? null : Math.max(Math.round((now - oldest) / 1000), 0),
+      throughput: {
+        since: new Date(this.startedAt).toISOString(),
+        added: this.added,
+        taken: this.taken,
+        addedPerMinute: roundRate(this.added / minutes),
+        takenPerMinute: roundRate(this.taken / minutes)
+      },
+      activeTemplate: this.activeTemplate
+    };
+  }
+
+  /**
+   * Add an item to the counts or take it out of them
+   * @param since When the item started waiting, if it waited before
+   */
+  private count(item: any, delta: 1 | -1, now: number, since?: number): void {
+    const facets = this.describe(item);
+
+    if (facets.isOpen) {
+      this.length += delta;
+    }
+
+    if (this.options.statuses && facets.status !== null) {
+      adjust(this.byStatus, facets.status, delta);
+    }
+
+    if (this.options.priorities) {
+      adjust(this.byPriority, facets.priority ?? 'none', delta);
+    }
+
+    if (facets.assignee === null) {
+      this.unassigned += delta;
+    } else {
+      adjust(this.byAssignee, facets.assignee, delta);
+    }
+
+    if (facets.id === undefined) {
+      return;
+    }
+
+    if (delta > 0 && facets.isWaiting) {
+      this.waitingSince.set(facets.id, since ?? facets.queuedAt ?? now);
+    } else if (delta < 0) {
+      this.waitingSince.delete(facets.id);
+    }
+  }
+}
+
+/**
+ * Change a count, dropping keys that reach zero
+ */
+function adjust(counts: Map<string, number>, key: string, delta: number): void {
+  const count = (counts.get(key) || 0) + delta;
+
+  if (count > 0) {
+    counts.set(key, count);
+  } else {
+    counts.delete(key);
+  }
+}
+
+/**
+ * Round a rate to two decimals
+ */
+function roundRate(rate: number): number {
+  return Math.round(rate * 100) / 100;
+}
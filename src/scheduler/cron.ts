@@ -0,0 +1,206 @@
+/**
+ * Cron Expressions - Standard five-field schedules in local time
+ */
+
+/**
+ * Shorthands for common schedules
+ */
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+/**
+ * Names allowed in the month and day of week fields
+ */
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * How far ahead a matching time is searched before the schedule is considered to never fire
+ */
+const MAX_SEARCH_YEARS = 5;
+
+/**
+ * Range and names of one field of an expression
+ */
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+  nameOffset?: number;
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES, nameOffset: 1 },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, nameOffset: 0 }
+];
+
+/**
+ * A parsed cron expression
+ *
+ * Supports `*`, single values, ranges, lists, steps (`*\/15`, `1-10/2`), month
+ * and weekday names and the `@daily` style shorthands. As in classic cron, a
+ * day matches if either day of month or day of week matches when both are
+ * restricted.
+ */
+export class CronSchedule {
+  private readonly minutes: Set<number>;
+  private readonly hours: Set<number>;
+  private readonly daysOfMonth: Set<number>;
+  private readonly months: Set<number>;
+  private readonly daysOfWeek: Set<number>;
+  private readonly isDayOfMonthRestricted: boolean;
+  private readonly isDayOfWeekRestricted: boolean;
+
+  /**
+   * @param expression The cron expression
+   * @throws Error if the expression is invalid
+   */
+  constructor(readonly expression: string) {
+    const normalized = MACROS[expression.trim().toLowerCase()] || expression.trim();
+    const fields = normalized.split(/\s+/);
+
+    if (fields.length !== FIELDS.length) {
+      throw new Error(`Invalid cron expression "${expression}": expected ${FIELDS.length} fields`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) => {
+      try {
+        return parseField(field, FIELDS[index]);
+      } catch (error) {
+        throw new Error(`Invalid cron expression "${expression}": ${error instanceof Error ? error.message : error}`);
+      }
+    });
+
+    this.minutes = minutes;
+    this.hours = hours;
+    this.daysOfMonth = daysOfMonth;
+    this.months = months;
+
+    // Sunday may be written as 0 or 7
+    this.daysOfWeek = new Set([...daysOfWeek].map(day => day % 7));
+
+    this.isDayOfMonthRestricted = !fields[2].startsWith('*');
+    this.isDayOfWeekRestricted = !fields[4].startsWith('*');
+  }
+
+  /**
+   * Find the first time after the given one that matches the schedule
+   * @returns The matching time, or null if the schedule never fires
+   */
+  next(after: Date): Date | null {
+    const date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    const limit = new Date(after.getTime());
+    limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+    while (date <= limit) {
+      if (!this.months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.matchesDay(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+        continue;
+      }
+
+      if (!this.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0);
+        continue;
+      }
+
+      return date;
+    }
+
+    return null;
+  }
+
+  /**
+   * Check the day of month and day of week fields
+   */
+  private matchesDay(date: Date): boolean {
+    const matchesDayOfMonth = this.daysOfMonth.has(date.getDate());
+    const matchesDayOfWeek = this.daysOfWeek.has(date.getDay());
+
+    if (this.isDayOfMonthRestricted && this.isDayOfWeekRestricted) {
+      return matchesDayOfMonth || matchesDayOfWeek;
+    }
+
+    return matchesDayOfMonth && matchesDayOfWeek;
+  }
+}
+
+/**
+ * Expand one field of an expression into the values it matches
+ */
+function parseField(field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`invalid step "${stepText}" in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+    } else {
+      start = parseValue(range, spec);
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    if (start > end) {
+      throw new Error(`invalid range "${range}" in ${spec.name}`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a single number or name of a field
+ */
+function parseValue(text: string, spec: FieldSpec): number {
+  const nameIndex = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  const value = nameIndex >= 0 ? nameIndex + (spec.nameOffset || 0) : Number(text);
+
+  if (text === '' || !Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new Error(`"${text}" is out of range for ${spec.name} (${spec.min}-${spec.max})`);
+  }
+
+  return value;
+}
@@ -0,0 +1,393 @@
+/**
+ * Scheduler - Adds recurring items to queues at times given by cron expressions
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { ScheduleConfig, SchedulerConfig } from '../config/types.js';
+import { QueueRegistry } from '../queue/queue-registry.js';
+import { writeFileAtomic } from '../utils/atomic-file.js';
+import { FileLock } from '../utils/file-lock.js';
+import { CronSchedule } from './cron.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Most missed runs of one schedule that are caught up with the 'all' policy
+ */
+const MAX_CATCH_UP_RUNS = 100;
+
+/**
+ * How long a failed run waits before it is tried again, in milliseconds
+ */
+const RETRY_DELAY = 60 * 1000;
+
+/**
+ * Longest delay that setTimeout accepts
+ */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * A configured schedule with its parsed expression and run times
+ */
+interface ScheduleEntry {
+  name: string;
+  config: ScheduleConfig;
+  queueName: string;
+  cron: CronSchedule;
+  lastRun: Date | null;
+  checkedAt: Date | null;
+  nextRun: Date | null;
+  retry: ScheduleRetry | null;
+}
+
+/**
+ * A failed run waiting to be tried again, with the number of due runs still
+ * to perform before the rest are skipped
+ */
+interface ScheduleRetry {
+  at: Date;
+  limit: number;
+}
+
+/**
+ * Progress of a schedule kept across restarts
+ *
+ * `checkedAt` is the time up to which all runs were handled, performed or
+ * skipped, and is where catching up starts.
+ */
+interface ScheduleState {
+  lastRun: string | null;
+  checkedAt: string;
+}
+
+/**
+ * Upcoming runs of a schedule, as reported to clients
+ */
+export interface ScheduleInfo {
+  name: string;
+  queue: string;
+  cron: string;
+  templateId?: string;
+  item?: Record<string, any>;
+  position: 'front' | 'back';
+  lastRun: string | null;
+  nextRuns: string[];
+}
+
+/**
+ * Runs the configured schedules while the server is up
+ *
+ * The progress of every schedule is kept in a state file. Runs missed while
+ * the server was down are caught up on start according to the catch-up policy
+ * of the schedule: 'none' skips them, 'once' performs a single run and 'all'
+ * performs every missed run. A schedule seen for the first time starts with
+ * its next regular run. Runs that fall due while the server is up are all
+ * performed, even when the timer fires late. A run that fails is not
+ * recorded and is tried again a minute later.
+ *
+ * Servers sharing the state file take turns through a lock file next to it.
+ * Each one reads the state again before a run and skips runs another server
+ * has already performed, so every run adds its items once.
+ */
+export class Scheduler {
+  private entries: ScheduleEntry[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> = Promise.resolve();
+  private isStopped = false;
+  private readonly lock: FileLock;
+
+  constructor(
+    config: SchedulerConfig | undefined,
+    private registry: QueueRegistry,
+    private stateFile: string
+  ) {
+    this.lock = new FileLock(`${stateFile}.lock`);
+
+    for (const [name, scheduleConfig] of Object.entries(config?.schedules || {})) {
+      // Fails on unknown queues before the server starts
+      const queueName = scheduleConfig.queue || registry.getDefaultName();
+      registry.get(queueName);
+
+      this.entries.push({
+        name,
+        config: scheduleConfig,
+        queueName,
+        cron: new CronSchedule(scheduleConfig.cron),
+        lastRun: null,
+        checkedAt: null,
+        nextRun: null,
+        retry: null
+      });
+    }
+  }
+
+  /**
+   * Catch up on missed runs and wait for the next ones
+   */
+  async start(): Promise<void> {
+    if (this.entries.length === 0) {
+      return;
+    }
+
+    // The lock file is created next to the state file
+    await fs.mkdir(path.dirname(this.stateFile), { recursive: true });
+
+    await this.lock.runExclusive(async () => {
+      const state = await this.loadState();
+      const now = new Date();
+
+      for (const entry of this.entries) {
+        entry.lastRun = parseTime(state[entry.name]?.lastRun);
+        entry.checkedAt = parseTime(state[entry.name]?.checkedAt) || now;
+        entry.nextRun = entry.cron.next(entry.checkedAt);
+
+        const missed = this.getRunsBetween(entry.cron, entry.checkedAt, now, MAX_CATCH_UP_RUNS);
+        if (missed.length > 0) {
+          logger.info(`Schedule ${entry.name} missed ${missed.length} runs, catching up ${this.getCatchUpRuns(entry, missed.length)}`);
+        }
+        await this.runEntry(entry, now, this.getCatchUpRuns(entry, MAX_CATCH_UP_RUNS));
+      }
+
+      await this.saveState(state);
+    });
+    this.arm();
+  }
+
+  /**
+   * Stop waiting for runs, letting a run in progress finish
+   */
+  async stop(): Promise<void> {
+    this.isStopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    await this.running;
+  }
+
+  /**
+   * Describe the schedules with their next run times
+   * @param count Number of upcoming runs to list per schedule
+   */
+  getUpcoming(count: number): ScheduleInfo[] {
+    return this.entries.map(entry => {
+      const nextRuns: string[] = [];
+      let next = entry.nextRun || entry.cron.next(new Date());
+
+      while (next && nextRuns.length < count) {
+        nextRuns.push(next.toISOString());
+        next = entry.cron.next(next);
+      }
+
+      return {
+        name: entry.name,
+        queue: entry.queueName,
+        cron: entry.config.cron,
+        templateId: entry.config.templateId,
+        item: entry.config.item,
+        position: entry.config.position || 'back',
+        lastRun: entry.lastRun ? entry.lastRun.toISOString() : null,
+        nextRuns
+      };
+    });
+  }
+
+  /**
+   * Set a timer for the earliest upcoming run
+   */
+  private arm(): void {
+    if (this.isStopped) {
+      return;
+    }
+
+    const nextTimes = this.entries
+      .map(entry => (entry.retry ? entry.retry.at : entry.nextRun)?.getTime())
+      .filter((time): time is number => time !== undefined);
+
+    if (nextTimes.length === 0) {
+      return;
+    }
+
+    // Far away runs are reached in several steps
+    const delay = Math.min(Math.max(Math.min(...nextTimes) - Date.now(), 0), MAX_TIMER_DELAY);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.running = this.runDue().finally(() => this.arm());
+    }, delay);
+
+    // Pending runs must not keep the process alive
+    this.timer.unref();
+  }
+
+  /**
+   * Perform the runs that are due
+   */
+  private async runDue(): Promise<void> {
+    try {
+      await this.lock.runExclusive(async () => {
+        const state = await this.loadState();
+        const now = new Date();
+        let hasRun = false;
+
+        for (const entry of this.entries) {
+          // Runs performed by another server sharing the state file
+          const checkedAt = parseTime(state[entry.name]?.checkedAt);
+          if (checkedAt && (!entry.checkedAt || checkedAt > entry.checkedAt)) {
+            entry.lastRun = parseTime(state[entry.name]?.lastRun);
+            entry.checkedAt = checkedAt;
+            entry.nextRun = entry.cron.next(checkedAt);
+            entry.retry = null;
+          }
+
+          if (entry.retry && entry.retry.at > now) {
+            continue;
+          }
+
+          const limit = entry.retry ? entry.retry.limit : MAX_CATCH_UP_RUNS;
+          hasRun = await this.runEntry(entry, now, limit) || hasRun;
+        }
+
+        if (hasRun) {
+          await this.saveState(state);
+        }
+      });
+    } catch (error) {
+      logger.error('Failed to perform scheduled runs', error);
+    }
+  }
+
+  /**
+   * Perform the runs of a schedule that are due, each one advancing from its
+   * own time, and skip the due runs beyond the limit
+   * @returns Whether the progress of the schedule changed
+   */
+  private async runEntry(entry: ScheduleEntry, now: Date, limit: number): Promise<boolean> {
+    let runs = 0;
+    entry.retry = null;
+
+    while (entry.nextRun && entry.nextRun <= now) {
+      if (runs === limit) {
+        entry.checkedAt = now;
+        entry.nextRun = entry.cron.next(now);
+        return true;
+      }
+
+      if (!await this.run(entry)) {
+        entry.retry = { at: new Date(now.getTime() + RETRY_DELAY), limit: limit - runs };
+        break;
+      }
+
+      entry.lastRun = now;
+      entry.checkedAt = entry.nextRun;
+      entry.nextRun = entry.cron.next(entry.nextRun);
+      runs++;
+    }
+
+    return runs > 0;
+  }
+
+  /**
+   * Add the template or item of a schedule to its queue
+   * @returns Whether the items were added
+   */
+  private async run(entry: ScheduleEntry): Promise<boolean> {
+    const queue = this.registry.get(entry.queueName);
+    const toFront = entry.config.position === 'front';
+
+    try {
+      if (entry.config.templateId !== undefined) {
+        await (toFront
+          ? queue.addFrontFromTemplate(entry.config.templateId)
+          : queue.addBackFromTemplate(entry.config.templateId));
+      } else {
+        await (toFront
+          ? queue.pushFront({ ...entry.config.item })
+          : queue.pushBack({ ...entry.config.item }));
+      }
+
+      logger.info(`Schedule ${entry.name} added to queue ${entry.queueName}`);
+      return true;
+    } catch (error) {
+      logger.error(`Schedule ${entry.name} failed, trying again later`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Number of missed runs to perform according to the catch-up policy
+   */
+  private getCatchUpRuns(entry: ScheduleEntry, missed: number): number {
+    switch (entry.config.catchUp || 'once') {
+      case 'none':
+        return 0;
+      case 'all':
+        return missed;
+      default:
+        return Math.min(missed, 1);
+    }
+  }
+
+  /**
+   * Run times after `from` up to and including `to`
+   */
+  private getRunsBetween(cron: CronSchedule, from: Date, to: Date, limit: number): Date[] {
+    const runs: Date[] = [];
+    let next = cron.next(from);
+
+    while (next && next <= to && runs.length < limit) {
+      runs.push(next);
+      next = cron.next(next);
+    }
+
+    return runs;
+  }
+
+  /**
+   * Read the progress of the schedules from the state file
+   */
+  private async loadState(): Promise<Record<string, ScheduleState>> {
+    try {
+      return JSON.parse(await fs.readFile(this.stateFile, 'utf-8'));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        logger.warn(`Failed to read scheduler state ${this.stateFile}, starting without`, error);
+      }
+      return {};
+    }
+  }
+
+  /**
+   * Write the progress of the schedules to the state file
+   * @param state The stored state, schedules unknown to this server are kept
+   */
+  private async saveState(state: Record<string, ScheduleState>): Promise<void> {
+    for (const entry of this.entries) {
+      if (entry.checkedAt) {
+        state[entry.name] = {
+          lastRun: entry.lastRun ? entry.lastRun.toISOString() : null,
+          checkedAt: entry.checkedAt.toISOString()
+        };
+      }
+    }
+
+    try {
+      await fs.mkdir(path.dirname(this.stateFile), { recursive: true });
+      await writeFileAtomic(this.stateFile, JSON.stringify(state, null, 2));
+    } catch (error) {
+      logger.error(`Failed to write scheduler state ${this.stateFile}`, error);
+    }
+  }
+}
+
+/**
+ * Parse a stored time, ignoring missing and invalid values
+ */
+function parseTime(value: string | null | undefined): Date | null {
+  if (!value) {
+    return null;
+  }
+
+  const time = new Date(value);
+  return Number.isNaN(time.getTime()) ? null : time;
+}
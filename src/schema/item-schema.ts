@@ -0,0 +1,270 @@
+/**
+ * Item Schema - Compiles item templates into a shared Zod schema
+ */
+
+import { z } from 'zod';
+import { FieldDefinition, FieldSpec, ItemTemplate, JsonSchema } from '../config/types.js';
+import { compileJsonSchema } from './json-schema.js';
+
+/**
+ * Suffix marking a field as optional in the shorthand notation
+ */
+const OPTIONAL_SUFFIX = '?';
+
+/**
+ * Suffix marking a typed array in the shorthand notation
+ */
+const ARRAY_SUFFIX = '[]';
+
+/**
+ * Prefix of an enum in the shorthand notation, e.g. "enum:low|medium|high"
+ */
+const ENUM_PREFIX = 'enum:';
+
+/**
+ * Result of validating an item against the item schema
+ */
+export type ItemValidationResult =
+  | { valid: true; item: any }
+  | { valid: false; errors: string[] };
+
+/**
+ * Build the item schema from a template or a JSON Schema
+ * @param template Field template, shorthand strings or field definitions
+ * @param jsonSchema JSON Schema describing the item, used if no template is given
+ * @param managedFields Fields maintained by the queue itself, never required from agents
+ * @returns Zod schema for items, or null if items are not constrained
+ * @throws Error if the template uses an unknown type
+ */
+export function compileItemSchema(
+  template: ItemTemplate | null,
+  jsonSchema: JsonSchema | null,
+  managedFields: string[]
+): z.ZodTypeAny | null {
+  if (template) {
+    const fields = Object.entries(template).filter(([key]) => !managedFields.includes(key));
+    return compileObject(Object.fromEntries(fields), 'item').passthrough();
+  }
+
+  if (jsonSchema) {
+    const required: string[] = jsonSchema.required || [];
+
+    // A closed object still accepts the fields the queue writes onto items
+    const properties = jsonSchema.additionalProperties === false
+      ? { ...Object.fromEntries(managedFields.map(key => [key, {}])), ...jsonSchema.properties }
+      : jsonSchema.properties;
+
+    return compileJsonSchema({
+      ...jsonSchema,
+      ...(properties ? { properties } : {}),
+      required: required.filter(key => !managedFields.includes(key))
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Validate an item and apply defaults
+ * @param schema Compiled item schema, or null to accept any object
+ * @param item The item to validate
+ * @returns The validated item or field-level error messages
+ */
+export function validateWithSchema(schema: z.ZodTypeAny | null, item: any): ItemValidationResult {
+  if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+    return { valid: false, errors: ['item: Expected an object'] };
+  }
+
+  if (!schema) {
+    return { valid: true, item };
+  }
+
+  // Keep the field order of the item, defaults are appended
+  const result = schema.safeParse(item);
+  if (result.success) {
+    return { valid: true, item: { ...item, ...result.data } };
+  }
+
+  return {
+    valid: false,
+    errors: result.error.issues.map(issue => `${['item', ...issue.path].join('.')}: ${issue.message}`)
+  };
+}
+
+/**
+ * Compile a map of field specs into an object schema
+ */
+function compileObject(fields: Record<string, FieldSpec>, path: string): z.AnyZodObject {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const [key, spec] of Object.entries(fields)) {
+    shape[key] = compileField(spec, `${path}.${key}`);
+  }
+
+  return z.object(shape);
+}
+
+/**
+ * Compile a single field spec
+ */
+function compileField(spec: FieldSpec, path: string): z.ZodTypeAny {
+  const definition = toFieldDefinition(spec);
+  let schema = compileType(definition, path);
+
+  if (definition.description) {
+    schema = schema.describe(definition.description);
+  }
+
+  if (definition.default !== undefined) {
+    return schema.default(definition.default);
+  }
+
+  return definition.optional ? schema.optional() : schema;
+}
+
+/**
+ * Normalize a field spec into a field definition
+ */
+export function toFieldDefinition(spec: FieldSpec): FieldDefinition {
+  return typeof spec === 'string' ? parseShorthand(spec) : spec;
+}
+
+/**
+ * Turn shorthand notation like "string[]?" or "enum:a|b" into a field definition
+ */
+function parseShorthand(spec: string): FieldDefinition {
+  let type = spec.trim();
+  const optional = type.endsWith(OPTIONAL_SUFFIX);
+  if (optional) {
+    type = type.slice(0, -OPTIONAL_SUFFIX.length);
+  }
+
+  if (type.startsWith(ENUM_PREFIX)) {
+    return { type: 'string', optional, enum: type.slice(ENUM_PREFIX.length).split('|') };
+  }
+
+  if (type.endsWith(ARRAY_SUFFIX)) {
+    return { type: 'array', optional, items: type.slice(0, -ARRAY_SUFFIX.length) };
+  }
+
+  return { type, optional };
+}
+
+/**
+ * Compile the type of a field definition, including its constraints
+ */
+function compileType(definition: FieldDefinition, path: string): z.ZodTypeAny {
+  if (definition.enum && definition.enum.length > 0) {
+    return compileEnum(definition.enum);
+  }
+
+  const type = definition.type.toLowerCase();
+  switch (type) {
+    case 'string':
+    case 'date':
+    case 'datetime':
+    case 'email':
+    case 'url':
+    case 'uuid':
+      return compileString(definition, type === 'string' ? definition.format : type);
+    case 'number':
+    case 'integer':
+      return compileNumber(definition, type === 'integer');
+    case 'boolean':
+      return z.boolean();
+    case 'object':
+      return definition.properties
+        ? compileObject(definition.properties, path).passthrough()
+        : z.record(z.any());
+    case 'array':
+      return compileArray(definition, path);
+    case 'any':
+      return z.any();
+    default:
+      throw new Error(`Unknown type "${definition.type}" for field ${path}`);
+  }
+}
+
+/**
+ * Compile an enum of allowed values
+ */
+function compileEnum(values: Array<string | number | boolean>): z.ZodTypeAny {
+  if (values.every(value => typeof value === 'string')) {
+    return z.enum(values as [string, ...string[]]);
+  }
+
+  const literals = values.map(value => z.literal(value));
+  return literals.length === 1
+    ? literals[0]
+    : z.union(literals as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+/**
+ * Compile a string with optional format and length limits
+ */
+function compileString(definition: FieldDefinition, format?: string): z.ZodTypeAny {
+  let schema = z.string();
+
+  switch (format) {
+    case 'date':
+      schema = schema.date();
+      break;
+    case 'datetime':
+      schema = schema.datetime({ offset: true });
+      break;
+    case 'email':
+      schema = schema.email();
+      break;
+    case 'url':
+      schema = schema.url();
+      break;
+    case 'uuid':
+      schema = schema.uuid();
+      break;
+    case undefined:
+      break;
+    default:
+      throw new Error(`Unknown string format "${format}"`);
+  }
+
+  if (definition.min !== undefined) {
+    schema = schema.min(definition.min);
+  }
+  if (definition.max !== undefined) {
+    schema = schema.max(definition.max);
+  }
+
+  return schema;
+}
+
+/**
+ * Compile a number with optional bounds
+ */
+function compileNumber(definition: FieldDefinition, isInteger: boolean): z.ZodTypeAny {
+  let schema = isInteger ? z.number().int() : z.number();
+
+  if (definition.min !== undefined) {
+    schema = schema.min(definition.min);
+  }
+  if (definition.max !== undefined) {
+    schema = schema.max(definition.max);
+  }
+
+  return schema;
+}
+
+/**
+ * Compile an array with an optional element type and length limits
+ */
+function compileArray(definition: FieldDefinition, path: string): z.ZodTypeAny {
+  let schema = z.array(definition.items ? compileField(definition.items, `${path}[]`) : z.any());
+
+  if (definition.min !== undefined) {
+    schema = schema.min(definition.min);
+  }
+  if (definition.max !== undefined) {
+    schema = schema.max(definition.max);
+  }
+
+  return schema;
+}
\ No newline at end of file
@@ -0,0 +1,204 @@
+/**
+ * JSON Schema - Compiles a JSON Schema item description into a Zod schema
+ */
+
+import { z } from 'zod';
+import { JsonSchema } from '../config/types.js';
+
+/**
+ * Compile the supported subset of JSON Schema into a Zod schema
+ *
+ * Supports type (including type lists with "null"), enum, const, properties,
+ * required, additionalProperties, items, numeric and length bounds, pattern,
+ * format, default and description. References are not resolved.
+ * @param schema The JSON Schema
+ * @param path Location of the schema, used in error messages
+ * @returns The equivalent Zod schema
+ * @throws Error if the schema uses an unsupported construct
+ */
+export function compileJsonSchema(schema: JsonSchema, path: string = 'item'): z.ZodTypeAny {
+  if (schema.$ref) {
+    throw new Error(`JSON Schema references are not supported (${path})`);
+  }
+
+  let result = compileJsonType(schema, path);
+
+  if (schema.description) {
+    result = result.describe(schema.description);
+  }
+
+  if (schema.default !== undefined) {
+    result = result.default(schema.default);
+  }
+
+  return result;
+}
+
+/**
+ * Compile the type part of a schema, without default and description
+ */
+function compileJsonType(schema: JsonSchema, path: string): z.ZodTypeAny {
+  if (schema.const !== undefined) {
+    return z.literal(schema.const);
+  }
+
+  if (Array.isArray(schema.enum)) {
+    return compileJsonEnum(schema.enum, path);
+  }
+
+  const types: string[] = schema.type === undefined
+    ? [schema.properties ? 'object' : 'any']
+    : [schema.type].flat();
+  const nullable = types.includes('null');
+  const variants = types
+    .filter(type => type !== 'null')
+    .map(type => compileJsonVariant(schema, type, path));
+
+  let result: z.ZodTypeAny;
+  if (variants.length === 0) {
+    result = z.null();
+  } else if (variants.length === 1) {
+    result = variants[0];
+  } else {
+    result = z.union(variants as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  }
+
+  return nullable && variants.length > 0 ? result.nullable() : result;
+}
+
+/**
+ * Compile one of the types a schema allows
+ */
+function compileJsonVariant(schema: JsonSchema, type: string, path: string): z.ZodTypeAny {
+  switch (type) {
+    case 'string':
+      return compileJsonString(schema, path);
+    case 'number':
+    case 'integer':
+      return compileJsonNumber(schema, type === 'integer');
+    case 'boolean':
+      return z.boolean();
+    case 'object':
+      return compileJsonObject(schema, path);
+    case 'array':
+      return compileJsonArray(schema, path);
+    case 'any':
+      return z.any();
+    default:
+      throw new Error(`Unsupported JSON Schema type "${type}" (${path})`);
+  }
+}
+
+/**
+ * Compile an enum of allowed values
+ */
+function compileJsonEnum(values: any[], path: string): z.ZodTypeAny {
+  if (values.length === 0) {
+    throw new Error(`JSON Schema enum must not be empty (${path})`);
+  }
+
+  if (values.every(value => typeof value === 'string')) {
+    return z.enum(values as [string, ...string[]]);
+  }
+
+  const literals = values.map(value => z.literal(value));
+  return literals.length === 1
+    ? literals[0]
+    : z.union(literals as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+/**
+ * Compile a string with format, pattern and length limits
+ */
+function compileJsonString(schema: JsonSchema, path: string): z.ZodTypeAny {
+  let result = z.string();
+
+  switch (schema.format) {
+    case 'date':
+      result = result.date();
+      break;
+    case 'date-time':
+      result = result.datetime({ offset: true });
+      break;
+    case 'email':
+      result = result.email();
+      break;
+    case 'uri':
+    case 'url':
+      result = result.url();
+      break;
+    case 'uuid':
+      result = result.uuid();
+      break;
+    case undefined:
+      break;
+    default:
+      throw new Error(`Unsupported JSON Schema format "${schema.format}" (${path})`);
+  }
+
+  if (schema.minLength !== undefined) {
+    result = result.min(schema.minLength);
+  }
+  if (schema.maxLength !== undefined) {
+    result = result.max(schema.maxLength);
+  }
+  if (schema.pattern !== undefined) {
+    result = result.regex(new RegExp(schema.pattern));
+  }
+
+  return result;
+}
+
+/**
+ * Compile a number with inclusive and exclusive bounds
+ */
+function compileJsonNumber(schema: JsonSchema, isInteger: boolean): z.ZodTypeAny {
+  let result = isInteger ? z.number().int() : z.number();
+
+  if (schema.minimum !== undefined) {
+    result = result.gte(schema.minimum);
+  }
+  if (schema.maximum !== undefined) {
+    result = result.lte(schema.maximum);
+  }
+  if (schema.exclusiveMinimum !== undefined) {
+    result = result.gt(schema.exclusiveMinimum);
+  }
+  if (schema.exclusiveMaximum !== undefined) {
+    result = result.lt(schema.exclusiveMaximum);
+  }
+
+  return result;
+}
+
+/**
+ * Compile an object, keeping unknown keys unless additionalProperties is false
+ */
+function compileJsonObject(schema: JsonSchema, path: string): z.ZodTypeAny {
+  const required: string[] = schema.required || [];
+  const shape: Record<string, z.ZodTypeAny> = {};
+
+  for (const [key, property] of Object.entries<JsonSchema>(schema.properties || {})) {
+    const field = compileJsonSchema(property, `${path}.${key}`);
+    shape[key] = required.includes(key) || property.default !== undefined ? field : field.optional();
+  }
+
+  const result = z.object(shape);
+  return schema.additionalProperties === false ? result.strict() : result.passthrough();
+}
+
+/**
+ * Compile an array with an optional element schema and length limits
+ */
+function compileJsonArray(schema: JsonSchema, path: string): z.ZodTypeAny {
+  let result = z.array(schema.items ? compileJsonSchema(schema.items, `${path}[]`) : z.any());
+
+  if (schema.minItems !== undefined) {
+    result = result.min(schema.minItems);
+  }
+  if (schema.maxItems !== undefined) {
+    result = result.max(schema.maxItems);
+  }
+
+  return result;
+}
\ No newline at end of file
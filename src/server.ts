@@ -6,10 +6,14 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { QueueMincerConfig } from './config/types.js';
-import { QueueMincerTool, toolToSchema } from './tools/index.js';
+import { QueueMincerTool, getResources, resourceToSchema, toolToSchema } from './tools/index.js';
+import { HttpTransport } from './transports/http-transport.js';
+import { DEFAULT_PROFILE_NAME, ProfileRequest, ProfileResolver, getProfileConfigs } from './profiles/profile-resolver.js';
 import * as logger from './utils/logger.js';
 import * as errorHandler from './utils/error-handler.js';
 
@@ -17,59 +21,98 @@ import * as errorHandler from './utils/error-handler.js';
  * MCP Server for QueueMincer
  */
 export class QueueMincerServer {
-  private server: Server;
-  private tools: QueueMincerTool[] = [];
+  private toolsByProfile = new Map<string, QueueMincerTool[]>();
+  private profileResolver: ProfileResolver;
+  private httpTransport: HttpTransport | null = null;
   
   /**
    * Create a new MCP server
    * @param config QueueMincer configuration
+   * @param stdioProfile Profile served in stdio mode
    */
-  constructor(private config: QueueMincerConfig) {
-    // Initialize MCP server
-    this.server = new Server(
-      {
-        name: "queue-mincer",
-        version: "1.0.0",
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
+  constructor(
+    private config: QueueMincerConfig,
+    private stdioProfile: string = DEFAULT_PROFILE_NAME
+  ) {
+    this.profileResolver = new ProfileResolver(getProfileConfigs(config));
   }
   
   /**
-   * Register a set of tools with the server
+   * Register the set of tools of a profile with the server
    * @param tools Array of QueueMincer tools
+   * @param profile Name of the profile the tools belong to
    */
-  registerTools(tools: QueueMincerTool[]): void {
-    this.tools = tools;
-    logger.info(`Registered ${tools.length} tools`);
+  registerTools(tools: QueueMincerTool[], profile: string = DEFAULT_PROFILE_NAME): void {
+    this.toolsByProfile.set(profile, tools);
+    logger.info(`Registered ${tools.length} tools for profile ${profile}`);
   }
   
   /**
    * Start the MCP server
    */
   async start(): Promise<void> {
-    // Set up handlers
-    this.setupHandlers();
+    const serverConfig = this.config.server || {};
+    
+    // Serve any number of sessions over HTTP, all sharing the same queues
+    if (serverConfig.transport === 'http') {
+      this.httpTransport = new HttpTransport(serverConfig, request => this.createSessionServer(request));
+      await this.httpTransport.start();
+      return;
+    }
     
     // Connect to transport
     const transport = new StdioServerTransport();
-    await this.server.connect(transport);
-    logger.info('QueueMincer MCP server running on stdio');
+    await this.createSessionServer({ profile: this.stdioProfile, trusted: true }).connect(transport);
+    logger.info(`QueueMincer MCP server running on stdio with profile ${this.stdioProfile}`);
+  }
+  
+  /**
+   * Stop accepting new sessions and close open HTTP sessions
+   */
+  async stop(): Promise<void> {
+    if (this.httpTransport) {
+      await this.httpTransport.stop();
+      this.httpTransport = null;
+    }
+  }
+  
+  /**
+   * Create an MCP server instance for a single client session
+   * @throws Error if the requested profile is not available to the client
+   */
+  private createSessionServer(request: ProfileRequest): Server {
+    const profile = this.profileResolver.resolve(request);
+    const tools = this.toolsByProfile.get(profile) || [];
+    logger.info(`Session uses profile ${profile}`);
+    
+    // Initialize MCP server
+    const server = new Server(
+      {
+        name: "queue-mincer",
+        version: "1.0.0",
+      },
+      {
+        capabilities: {
+          tools: {},
+          resources: {},
+        },
+      }
+    );
+    
+    // Set up handlers
+    this.setupHandlers(server, tools);
+    return server;
   }
   
   /**
    * Setup request handlers
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server, tools: QueueMincerTool[]): void {
     // Handler for listing available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       try {
         // Convert tools to MCP schema format
-        const toolSchemas = this.tools.map(tool => toolToSchema(tool));
+        const toolSchemas = tools.map(tool => toolToSchema(tool));
         logger.debug(`Returning ${toolSchemas.length} tools`);
         
         return {
@@ -82,13 +125,13 @@ export class QueueMincerServer {
     });
     
     // Handler for executing tools
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       try {
         const { name, arguments: args } = request.params;
         logger.debug(`Executing tool: ${name}`);
         
         // Find the requested tool
-        const tool = this.tools.find(t => t.getName() === name);
+        const tool = tools.find(t => t.getName() === name);
         
         if (!tool) {
           return errorHandler.createErrorResponse(`Unknown tool: ${name}`);
@@ -101,5 +144,32 @@ export class QueueMincerServer {
         return errorHandler.handleUnknownError(error);
       }
     });
+    
+    const resources = getResources(tools);
+    
+    // Handler for listing available resources
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      logger.debug(`Returning ${resources.length} resources`);
+      
+      return {
+        resources: resources.map(resource => resourceToSchema(resource))
+      };
+    });
+    
+    // Handler for reading a resource
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      const { uri } = request.params;
+      logger.debug(`Reading resource: ${uri}`);
+      
+      const resource = resources.find(r => r.uri === uri);
+      
+      if (!resource) {
+        throw new Error(`Unknown resource: ${uri}`);
+      }
+      
+      return {
+        contents: [{ uri, mimeType: resource.mimeType, text: await resource.read() }]
+      };
+    });
   }
-} 
\ No newline at end of file
+}
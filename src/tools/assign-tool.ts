@@ -0,0 +1,79 @@
+/**
+ * Assign Tool Implementation
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { AssignToolConfig, AssignToolParams } from '../config/types.js';
+import { QueueManager } from '../queue/queue-manager.js';
+import { QueueMincerTool } from './index.js';
+import * as errorHandler from '../utils/error-handler.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Tool for reassigning queued items to another worker or releasing their claim
+ */
+export class AssignTool implements QueueMincerTool {
+  private readonly name: string;
+  private readonly description: string;
+  
+  constructor(
+    private config: AssignToolConfig,
+    private queueManager: QueueManager
+  ) {
+    this.name = config.alias || 'assign';
+    this.description = config.description || 'Assign a queued item to a worker, or release its claim when no worker is given';
+  }
+  
+  /**
+   * Get the name of the tool
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the description of the tool
+   */
+  getDescription(): string {
+    return this.description;
+  }
+  
+  /**
+   * Get the input schema for the tool
+   */
+  getInputSchema(): any {
+    const schema = z.object({
+      id: z.union([z.string(), z.number()]),
+      worker: z.string().min(1).optional()
+    });
+    
+    // Convert to JSON schema
+    return zodToJsonSchema(schema);
+  }
+  
+  /**
+   * Execute the tool with given parameters
+   */
+  async execute(params: AssignToolParams): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      if (params.id === undefined || params.id === null) {
+        return errorHandler.createErrorResponse('id parameter is required');
+      }
+      
+      const item = await this.queueManager.assignItem(params.id, params.worker || null);
+      
+      if (item === null) {
+        return errorHandler.createErrorResponse(`No queued item with id ${params.id}`);
+      }
+      
+      return errorHandler.createSuccessResponse(JSON.stringify(item, null, 2));
+    } catch (error) {
+      logger.error(`Error executing ${this.name} tool`, error);
+      return errorHandler.handleUnknownError(error);
+    }
+  }
+}
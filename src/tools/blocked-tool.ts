@@ -0,0 +1,68 @@
+/**
+ * Blocked Tool Implementation
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { BlockedToolConfig } from '../config/types.js';
+import { QueueManager } from '../queue/queue-manager.js';
+import { QueueMincerTool } from './index.js';
+import * as errorHandler from '../utils/error-handler.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Tool for viewing the items held back by their dependencies
+ */
+export class BlockedTool implements QueueMincerTool {
+  private readonly name: string;
+  private readonly description: string;
+  
+  constructor(
+    private config: BlockedToolConfig,
+    private queueManager: QueueManager
+  ) {
+    this.name = config.alias || 'blocked';
+    this.description = config.description || 'List the queued items that wait for other items to be finished';
+  }
+  
+  /**
+   * Get the name of the tool
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the description of the tool
+   */
+  getDescription(): string {
+    return this.description;
+  }
+  
+  /**
+   * Get the input schema for the tool
+   */
+  getInputSchema(): any {
+    const schema = z.object({});
+    
+    // Convert to JSON schema
+    return zodToJsonSchema(schema);
+  }
+  
+  /**
+   * Execute the tool with given parameters
+   */
+  async execute(): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      const blocked = await this.queueManager.listBlocked();
+      
+      return errorHandler.createSuccessResponse(JSON.stringify(blocked, null, 2));
+    } catch (error) {
+      logger.error(`Error executing ${this.name} tool`, error);
+      return errorHandler.handleUnknownError(error);
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Cancel Tool Implementation
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { CancelToolConfig, CancelToolParams } from '../config/types.js';
+import { QueueManager } from '../queue/queue-manager.js';
+import { QueueMincerTool } from './index.js';
+import * as errorHandler from '../utils/error-handler.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Tool for cancelling items
+ */
+export class CancelTool implements QueueMincerTool {
+  private readonly name: string;
+  private readonly description: string;
+  
+  constructor(
+    private config: CancelToolConfig,
+    private queueManager: QueueManager
+  ) {
+    this.name = config.alias || 'cancel';
+    this.description = config.description || 'Cancel an item that is no longer needed';
+  }
+  
+  /**
+   * Get the name of the tool
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the description of the tool
+   */
+  getDescription(): string {
+    return this.description;
+  }
+  
+  /**
+   * Get the input schema for the tool
+   */
+  getInputSchema(): any {
+    const schema = z.object({
+      id: z.union([z.string(), z.number()])
+    });
+    
+    // Convert to JSON schema
+    return zodToJsonSchema(schema);
+  }
+  
+  /**
+   * Execute the tool with given parameters
+   */
+  async execute(params: CancelToolParams): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      if (params.id === undefined || params.id === null) {
+        return errorHandler.createErrorResponse('id parameter is required');
+      }
+      
+      const item = await this.queueManager.cancelItem(params.id);
+      
+      if (item === null) {
+        return errorHandler.createErrorResponse(`No item with id ${params.id}`);
+      }
+      
+      return errorHandler.createSuccessResponse(JSON.stringify(item, null, 2));
+    } catch (error) {
+      logger.error(`Error executing ${this.name} tool`, error);
+      return errorHandler.handleUnknownError(error);
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Dead Letters Tool Implementation
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { DeadLettersToolConfig, DeadLettersToolParams } from '../config/types.js';
+import { QueueManager } from '../queue/queue-manager.js';
+import { QueueMincerTool } from './index.js';
+import * as errorHandler from '../utils/error-handler.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Default page size of the dead letters tool
+ */
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Default upper limit for the page size of the dead letters tool
+ */
+const DEFAULT_MAX_LIMIT = 100;
+
+/**
+ * Tool for inspecting the items that ran out of attempts
+ */
+export class DeadLettersTool implements QueueMincerTool {
+  private readonly name: string;
+  private readonly description: string;
+  private readonly defaultLimit: number;
+  private readonly maxLimit: number;
+  
+  constructor(
+    private config: DeadLettersToolConfig,
+    private queueManager: QueueManager
+  ) {
+    this.name = config.alias || 'deadLetters';
+    this.description = config.description || 'List the items that were given up on after too many failed attempts';
+    this.maxLimit = config.maxLimit || DEFAULT_MAX_LIMIT;
+    this.defaultLimit = Math.min(config.defaultLimit || DEFAULT_LIMIT, this.maxLimit);
+  }
+  
+  /**
+   * Get the name of the tool
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the description of the tool
+   */
+  getDescription(): string {
+    return this.description;
+  }
+  
+  /**
+   * Get the input schema for the tool
+   */
+  getInputSchema(): any {
+    const schema = z.object({
+      offset: z.number().int().min(0).optional().default(0),
+      limit: z.number().int().min(1).max(this.maxLimit).optional().default(this.defaultLimit)
+    });
+    
+    // Convert to JSON schema
+    return zodToJsonSchema(schema);
+  }
+  
+  /**
+   * Execute the tool with given parameters
+   */
+  async execute(params: DeadLettersToolParams): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      const offset = Math.max(params.offset || 0, 0);
+      const limit = Math.min(params.limit || this.defaultLimit, this.maxLimit);
+      
+      const page = await this.queueManager.listDeadLetters(offset, limit);
+      
+      return errorHandler.createSuccessResponse(JSON.stringify({
+        total: page.total,
+        offset,
+        limit,
+        items: page.items
+      }, null, 2));
+    } catch (error) {
+      logger.error(`Error executing ${this.name} tool`, error);
+      return errorHandler.handleUnknownError(error);
+    }
+  }
+}
@@ -10,6 +10,11 @@ import { QueueMincerTool } from './index.js';
 import * as errorHandler from '../utils/error-handler.js';
 import * as logger from '../utils/logger.js';
 
+/**
+ * Default upper limit for the number of items taken at once
+ */
+const DEFAULT_MAX_BATCH_SIZE = 100;
+
 /**
  * Tool for getting items from the queue
  */
@@ -19,16 +24,33 @@ export class GetTool implements QueueMincerTool {
   private readonly directionExposed: boolean;
   private readonly defaultDirection: 'front' | 'back';
   private readonly emptyQueueMessage: string;
+  private readonly notReadyMessage: string;
+  private readonly lease: boolean;
+  private readonly claim: boolean;
+  private readonly worker: string;
+  private readonly workerExposed: boolean;
+  private readonly batchExposed: boolean;
+  private readonly maxBatchSize: number;
   
   constructor(
     private config: GetToolConfig,
-    private queueManager: QueueManager
+    private queueManager: QueueManager,
+    profile: string
   ) {
     this.name = config.alias || 'get';
     this.description = config.description || 'Get the next item from the queue';
     this.directionExposed = config.directionExposed || false;
     this.defaultDirection = config.default || 'front';
     this.emptyQueueMessage = config.emptyQueueMessage || 'Queue is empty';
+    this.notReadyMessage = config.notReadyMessage || 'No item is ready yet';
+    this.lease = config.lease || false;
+    this.claim = config.claim || false;
+    this.workerExposed = config.workerExposed || false;
+    this.batchExposed = config.batchExposed || false;
+    this.maxBatchSize = config.maxBatchSize || DEFAULT_MAX_BATCH_SIZE;
+    
+    // Without a configured identity, the agents of a profile work as one worker
+    this.worker = config.worker || profile;
   }
   
   /**
@@ -59,6 +81,21 @@ export class GetTool implements QueueMincerTool {
       });
     }
     
+    // Add worker parameter if claims are made and the identity is exposed
+    if (this.claim && this.workerExposed) {
+      schema = schema.extend({
+        worker: z.string().min(1).optional()
+      });
+    }
+    
+    // Add count parameter if several items may be taken at once
+    if (this.batchExposed) {
+      schema = schema.extend({
+        count: z.number().int().min(1).max(this.maxBatchSize).optional().default(1)
+          .describe('Number of items to get at once')
+      });
+    }
+    
     // Convert to JSON schema
     return zodToJsonSchema(schema);
   }
@@ -76,17 +113,41 @@ export class GetTool implements QueueMincerTool {
         ? (params.direction || this.defaultDirection)
         : this.defaultDirection;
       
+      // A claiming worker only sees unassigned items and its own
+      const worker = this.claim
+        ? (this.workerExposed && params.worker) || this.worker
+        : undefined;
+      
+      // Several items are returned as a list
+      const count = this.batchExposed ? Math.min(params.count || 1, this.maxBatchSize) : 1;
+      if (count > 1) {
+        return await this.executeBatch(direction, count, worker);
+      }
+      
+      // In lease mode the item stays reserved until it is acked or nacked
+      if (this.lease) {
+        const lease = direction === 'front'
+          ? await this.queueManager.leaseFront(worker)
+          : await this.queueManager.leaseBack(worker);
+        
+        if (lease === null) {
+          return await this.createNothingReadyResponse();
+        }
+        
+        return errorHandler.createSuccessResponse(JSON.stringify(lease, null, 2));
+      }
+      
       // Get the item asynchronously
       let item;
       if (direction === 'front') {
-        item = await this.queueManager.getFront();
+        item = await this.queueManager.getFront(worker);
       } else {
-        item = await this.queueManager.getBack();
+        item = await this.queueManager.getBack(worker);
       }
       
       // If no item was found, return a message
       if (item === null) {
-        return errorHandler.createSuccessResponse(this.emptyQueueMessage);
+        return await this.createNothingReadyResponse();
       }
       
       // Return the item as a JSON string
@@ -96,4 +157,51 @@ export class GetTool implements QueueMincerTool {
       return errorHandler.handleUnknownError(error);
     }
   }
+  
+  /**
+   * Get up to count items at once, leased if the tool leases items
+   */
+  private async executeBatch(direction: 'front' | 'back', count: number, worker: string | undefined): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    let results: any[];
+    if (this.lease) {
+      results = direction === 'front'
+        ? await this.queueManager.leaseFrontBatch(count, worker)
+        : await this.queueManager.leaseBackBatch(count, worker);
+    } else {
+      results = direction === 'front'
+        ? await this.queueManager.getFrontBatch(count, worker)
+        : await this.queueManager.getBackBatch(count, worker);
+    }
+    
+    if (results.length === 0) {
+      return await this.createNothingReadyResponse();
+    }
+    
+    return errorHandler.createSuccessResponse(JSON.stringify(results, null, 2));
+  }
+  
+  /**
+   * Tell an empty queue apart from one whose items are not available yet,
+   * wait for other items or are assigned to other workers
+   */
+  private async createNothingReadyResponse(): Promise<{ content: Array<{ type: string; text: string }> }> {
+    const nextAvailableAt = await this.queueManager.getNextAvailableAt();
+    
+    if (nextAvailableAt === null) {
+      const blocked = await this.queueManager.listBlocked();
+      if (blocked.length > 0) {
+        return errorHandler.createSuccessResponse(`${this.notReadyMessage}. ${blocked.length} items wait for their dependencies`);
+      }
+      
+      const [queuedItem] = await this.queueManager.peek('front', 1);
+      return errorHandler.createSuccessResponse(queuedItem === undefined
+        ? this.emptyQueueMessage
+        : `${this.notReadyMessage}. The queued items are assigned to other workers`);
+    }
+    
+    return errorHandler.createSuccessResponse(`${this.notReadyMessage}. Next item available at ${nextAvailableAt}`);
+  }
 } 
\ No newline at end of file
@@ -3,11 +3,30 @@
  */
 
 import { ToolSchema } from "@modelcontextprotocol/sdk/types.js";
-import { QueueMincerConfig } from '../config/types.js';
+import { BaseToolConfig, ToolConfigEntry, ToolsConfig } from '../config/types.js';
 import { QueueManager } from '../queue/queue-manager.js';
+import { QueueRegistry } from '../queue/queue-registry.js';
+import { Scheduler } from '../scheduler/scheduler.js';
 import { GetTool } from './get-tool.js';
 import { PushTool } from './push-tool.js';
 import { LoadTool } from './load-tool.js';
+import { AckTool } from './ack-tool.js';
+import { NackTool } from './nack-tool.js';
+import { PeekTool } from './peek-tool.js';
+import { ListTool } from './list-tool.js';
+import { UpdateTool } from './update-tool.js';
+import { RemoveTool } from './remove-tool.js';
+import { SaveTool } from './save-tool.js';
+import { SchedulesTool } from './schedules-tool.js';
+import { DeadLettersTool } from './dead-letters-tool.js';
+import { RequeueTool } from './requeue-tool.js';
+import { PurgeTool } from './purge-tool.js';
+import { BlockedTool } from './blocked-tool.js';
+import { AssignTool } from './assign-tool.js';
+import { CompleteTool } from './complete-tool.js';
+import { FailTool } from './fail-tool.js';
+import { CancelTool } from './cancel-tool.js';
+import { StatsTool } from './stats-tool.js';
 
 /**
  * Common interface for QueueMincer tools
@@ -35,33 +54,185 @@ export interface QueueMincerTool {
     content: Array<{ type: string; text: string }>;
     isError?: boolean;
   }>;
+  
+  /**
+   * Get the MCP resource the tool offers, if any
+   */
+  getResource?(): QueueMincerResource | null;
+}
+
+/**
+ * Read-only data a tool offers as an MCP resource
+ */
+export interface QueueMincerResource {
+  uri: string;
+  name: string;
+  description: string;
+  mimeType: string;
+  
+  /**
+   * Read the current content of the resource
+   */
+  read(): Promise<string>;
 }
 
 /**
- * Create and register all tools based on configuration
+ * Placeholder in tool aliases and descriptions that is replaced by the queue name
+ */
+const QUEUE_PLACEHOLDER = '{queue}';
+
+/**
+ * Create and register all tools of one profile based on configuration
+ * @param profile Name of the profile, the default worker identity of claiming tools
  */
 export function createTools(
-  config: QueueMincerConfig,
-  queueManager: QueueManager
+  config: ToolsConfig,
+  registry: QueueRegistry,
+  scheduler: Scheduler,
+  profile: string
 ): QueueMincerTool[] {
-  const tools: QueueMincerTool[] = [];
+  const tools: QueueMincerTool[] = [
+    // Create Get Tools if configured and visible
+    ...createToolInstances(config.get, registry, (toolConfig, queueManager) => new GetTool(toolConfig, queueManager, profile)),
+    
+    // Create Push Tools if configured and visible
+    ...createToolInstances(config.push, registry, (toolConfig, queueManager) => new PushTool(toolConfig, queueManager)),
+    
+    // Create Load Tools if configured and visible
+    ...createToolInstances(config.load, registry, (toolConfig, queueManager) => new LoadTool(toolConfig, queueManager)),
+    
+    // Create Ack Tools if configured and visible
+    ...createToolInstances(config.ack, registry, (toolConfig, queueManager) => new AckTool(toolConfig, queueManager)),
+    
+    // Create Nack Tools if configured and visible
+    ...createToolInstances(config.nack, registry, (toolConfig, queueManager) => new NackTool(toolConfig, queueManager)),
+    
+    // Create Peek Tools if configured and visible
+    ...createToolInstances(config.peek, registry, (toolConfig, queueManager) => new PeekTool(toolConfig, queueManager)),
+    
+    // Create List Tools if configured and visible
+    ...createToolInstances(config.list, registry, (toolConfig, queueManager) => new ListTool(toolConfig, queueManager)),
+    
+    // Create Update Tools if configured and visible
+    ...createToolInstances(config.update, registry, (toolConfig, queueManager) => new UpdateTool(toolConfig, queueManager)),
+    
+    // Create Remove Tools if configured and visible
+    ...createToolInstances(config.remove, registry, (toolConfig, queueManager) => new RemoveTool(toolConfig, queueManager)),
+    
+    // Create Save Tools if configured and visible
+    ...createToolInstances(config.save, registry, (toolConfig, queueManager) => new SaveTool(toolConfig, queueManager)),
+    
+    // Create Dead Letters Tools if configured and visible
+    ...createToolInstances(config.deadLetters, registry, (toolConfig, queueManager) => new DeadLettersTool(toolConfig, queueManager)),
+    
+    // Create Requeue Tools if configured and visible
+    ...createToolInstances(config.requeue, registry, (toolConfig, queueManager) => new RequeueTool(toolConfig, queueManager)),
+    
+    // Create Purge Tools if configured and visible
+    ...createToolInstances(config.purge, registry, (toolConfig, queueManager) => new PurgeTool(toolConfig, queueManager)),
+    
+    // Create Blocked Tools if configured and visible
+    ...createToolInstances(config.blocked, registry, (toolConfig, queueManager) => new BlockedTool(toolConfig, queueManager)),
+    
+    // Create Assign Tools if configured and visible
+    ...createToolInstances(config.assign, registry, (toolConfig, queueManager) => new AssignTool(toolConfig, queueManager)),
+    
+    // Create Complete Tools if configured and visible
+    ...createToolInstances(config.complete, registry, (toolConfig, queueManager) => new CompleteTool(toolConfig, queueManager)),
+    
+    // Create Fail Tools if configured and visible
+    ...createToolInstances(config.fail, registry, (toolConfig, queueManager) => new FailTool(toolConfig, queueManager)),
+    
+    // Create Cancel Tools if configured and visible
+    ...createToolInstances(config.cancel, registry, (toolConfig, queueManager) => new CancelTool(toolConfig, queueManager)),
+    
+    // Create Stats Tools if configured and visible
+    ...createToolInstances(config.stats, registry, (toolConfig, queueManager) => new StatsTool(toolConfig, queueManager)),
+    
+    // Create Schedules Tools if configured and visible, they are not bound to a single queue
+    ...[config.schedules || []].flat()
+      .filter(toolConfig => toolConfig.visible !== false)
+      .map(toolConfig => new SchedulesTool(toolConfig, scheduler))
+  ];
   
-  // Create Get Tool if configured and visible
-  if (config.tools.get && config.tools.get.visible !== false) {
-    tools.push(new GetTool(config.tools.get, queueManager));
+  // Tool names must be unique across all queues
+  const names = new Set<string>();
+  for (const tool of tools) {
+    if (names.has(tool.getName())) {
+      throw new Error(`Duplicate tool name: ${tool.getName()}. Use ${QUEUE_PLACEHOLDER} in the alias to distinguish queues`);
+    }
+    names.add(tool.getName());
   }
   
-  // Create Push Tool if configured and visible
-  if (config.tools.push && config.tools.push.visible !== false) {
-    tools.push(new PushTool(config.tools.push, queueManager));
+  return tools;
+}
+
+/**
+ * Create one tool instance per visible configuration and bound queue
+ */
+function createToolInstances<T extends BaseToolConfig>(
+  entry: ToolConfigEntry<T> | undefined,
+  registry: QueueRegistry,
+  create: (toolConfig: T, queueManager: QueueManager) => QueueMincerTool
+): QueueMincerTool[] {
+  if (!entry) {
+    return [];
   }
   
-  // Create Load Tool if configured and visible
-  if (config.tools.load && config.tools.load.visible !== false) {
-    tools.push(new LoadTool(config.tools.load, queueManager));
-  }
+  const toolConfigs = Array.isArray(entry) ? entry : [entry];
   
-  return tools;
+  return toolConfigs
+    .filter(toolConfig => toolConfig.visible !== false)
+    .flatMap(toolConfig => {
+      const queueNames = toolConfig.queue === undefined
+        ? [registry.getDefaultName()]
+        : [toolConfig.queue].flat();
+      
+      return queueNames.map(queueName => create(
+        bindToolConfig(toolConfig, queueName, queueNames.length > 1),
+        registry.get(queueName)
+      ));
+    });
+}
+
+/**
+ * Fill the queue name into the alias and description of a tool configuration
+ */
+function bindToolConfig<T extends BaseToolConfig>(toolConfig: T, queueName: string, isShared: boolean): T {
+  const alias = toolConfig.alias;
+  
+  // A configuration shared by several queues needs distinct names per queue
+  const boundAlias = isShared && alias !== undefined && !alias.includes(QUEUE_PLACEHOLDER)
+    ? `${alias}_${queueName}`
+    : alias?.split(QUEUE_PLACEHOLDER).join(queueName);
+  
+  return {
+    ...toolConfig,
+    alias: boundAlias,
+    description: toolConfig.description?.split(QUEUE_PLACEHOLDER).join(queueName),
+    queue: queueName
+  };
+}
+
+/**
+ * Collect the MCP resources offered by the tools
+ */
+export function getResources(tools: QueueMincerTool[]): QueueMincerResource[] {
+  return tools
+    .map(tool => tool.getResource?.() ?? null)
+    .filter((resource): resource is QueueMincerResource => resource !== null);
+}
+
+/**
+ * Convert a resource to MCP resource format
+ */
+export function resourceToSchema(resource: QueueMincerResource): any {
+  return {
+    uri: resource.uri,
+    name: resource.name,
+    description: resource.description,
+    mimeType: resource.mimeType
+  };
 }
 
 /**
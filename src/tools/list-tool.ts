@@ -0,0 +1,132 @@
+/**
+ * List Tool Implementation
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ListToolConfig, ListToolParams } from '../config/types.js';
+import { ITEM_STATUSES } from '../queue/lifecycle.js';
+import { QueueManager } from '../queue/queue-manager.js';
+import { QueueMincerTool } from './index.js';
+import * as errorHandler from '../utils/error-handler.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Default page size of the list tool
+ */
+const DEFAULT_LIMIT = 20;
+
+/**
+ * Default upper limit for the page size of the list tool
+ */
+const DEFAULT_MAX_LIMIT = 100;
+
+/**
+ * Tool for paging through the queue without removing items
+ */
+export class ListTool implements QueueMincerTool {
+  private readonly name: string;
+  private readonly description: string;
+  private readonly defaultLimit: number;
+  private readonly maxLimit: number;
+  private readonly fieldsExposed: boolean;
+  
+  constructor(
+    private config: ListToolConfig,
+    private queueManager: QueueManager
+  ) {
+    this.name = config.alias || 'list';
+    this.description = config.description || 'List the items in the queue without removing them';
+    this.maxLimit = config.maxLimit || DEFAULT_MAX_LIMIT;
+    this.defaultLimit = Math.min(config.defaultLimit || DEFAULT_LIMIT, this.maxLimit);
+    this.fieldsExposed = config.fieldsExposed !== false;
+  }
+  
+  /**
+   * Get the name of the tool
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the description of the tool
+   */
+  getDescription(): string {
+    return this.description;
+  }
+  
+  /**
+   * Get the input schema for the tool
+   */
+  getInputSchema(): any {
+    let schema = z.object({
+      offset: z.number().int().min(0).optional().default(0),
+      limit: z.number().int().min(1).max(this.maxLimit).optional().default(this.defaultLimit)
+    });
+    
+    // Add field projection parameter if exposed
+    if (this.fieldsExposed) {
+      schema = schema.extend({
+        fields: z.array(z.string()).optional()
+      });
+    }
+    
+    // Add status filter parameter if items have statuses
+    if (this.queueManager.hasStatuses()) {
+      schema = schema.extend({
+        status: z.array(z.enum(ITEM_STATUSES)).optional()
+      });
+    }
+    
+    // Convert to JSON schema
+    return zodToJsonSchema(schema);
+  }
+  
+  /**
+   * Execute the tool with given parameters
+   */
+  async execute(params: ListToolParams): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      const offset = Math.max(params.offset || 0, 0);
+      const limit = Math.min(params.limit || this.defaultLimit, this.maxLimit);
+      
+      const statuses = params.status && params.status.length > 0 ? params.status : undefined;
+      const page = await this.queueManager.list(offset, limit, statuses);
+      
+      // Reduce each item to the requested fields if a projection was given
+      const fields = this.fieldsExposed ? params.fields : undefined;
+      const items = fields && fields.length > 0
+        ? page.items.map(item => this.projectItem(item, fields))
+        : page.items;
+      
+      return errorHandler.createSuccessResponse(JSON.stringify({
+        total: page.total,
+        offset,
+        limit,
+        items
+      }, null, 2));
+    } catch (error) {
+      logger.error(`Error executing ${this.name} tool`, error);
+      return errorHandler.handleUnknownError(error);
+    }
+  }
+  
+  /**
+   * Keep only the given fields of an item
+   */
+  private projectItem(item: any, fields: string[]): Record<string, any> {
+    const projected: Record<string, any> = {};
+    
+    for (const field of fields) {
+      if (field in item) {
+        projected[field] = item[field];
+      }
+    }
+    
+    return projected;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,76 @@
+/**
+ * Nack Tool Implementation
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { NackToolConfig, NackToolParams } from '../config/types.js';
+import { QueueManager } from '../queue/queue-manager.js';
+import { QueueMincerTool } from './index.js';
+import * as errorHandler from '../utils/error-handler.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Tool for returning leased items to the queue
+ */
+export class NackTool implements QueueMincerTool {
+  private readonly name: string;
+  private readonly description: string;
+  
+  constructor(
+    private config: NackToolConfig,
+    private queueManager: QueueManager
+  ) {
+    this.name = config.alias || 'nack';
+    this.description = config.description || 'Return a leased item to the queue unprocessed';
+  }
+  
+  /**
+   * Get the name of the tool
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the description of the tool
+   */
+  getDescription(): string {
+    return this.description;
+  }
+  
+  /**
+   * Get the input schema for the tool
+   */
+  getInputSchema(): any {
+    const schema = z.object({
+      leaseToken: z.string()
+    });
+    
+    // Convert to JSON schema
+    return zodToJsonSchema(schema);
+  }
+  
+  /**
+   * Execute the tool with given parameters
+   */
+  async execute(params: NackToolParams): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      if (!params.leaseToken) {
+        return errorHandler.createErrorResponse('leaseToken parameter is required');
+      }
+      
+      if (!await this.queueManager.nack(params.leaseToken)) {
+        return errorHandler.createErrorResponse(`Lease ${params.leaseToken} is unknown or expired`);
+      }
+      
+      return errorHandler.createSuccessResponse('Item returned to queue');
+    } catch (error) {
+      logger.error(`Error executing ${this.name} tool`, error);
+      return errorHandler.handleUnknownError(error);
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,115 @@
+/**
+ * Peek Tool Implementation
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { PeekToolConfig, PeekToolParams } from '../config/types.js';
+import { QueueManager } from '../queue/queue-manager.js';
+import { QueueMincerTool } from './index.js';
+import * as errorHandler from '../utils/error-handler.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Default number of items returned by a peek
+ */
+const DEFAULT_COUNT = 1;
+
+/**
+ * Default upper limit for the number of items returned by a peek
+ */
+const DEFAULT_MAX_COUNT = 50;
+
+/**
+ * Tool for looking at items without removing them from the queue
+ */
+export class PeekTool implements QueueMincerTool {
+  private readonly name: string;
+  private readonly description: string;
+  private readonly directionExposed: boolean;
+  private readonly defaultDirection: 'front' | 'back';
+  private readonly countExposed: boolean;
+  private readonly defaultCount: number;
+  private readonly maxCount: number;
+  
+  constructor(
+    private config: PeekToolConfig,
+    private queueManager: QueueManager
+  ) {
+    this.name = config.alias || 'peek';
+    this.description = config.description || 'Look at the next items in the queue without removing them';
+    this.directionExposed = config.directionExposed || false;
+    this.defaultDirection = config.default || 'front';
+    this.countExposed = config.countExposed !== false;
+    this.maxCount = config.maxCount || DEFAULT_MAX_COUNT;
+    this.defaultCount = Math.min(config.defaultCount || DEFAULT_COUNT, this.maxCount);
+  }
+  
+  /**
+   * Get the name of the tool
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the description of the tool
+   */
+  getDescription(): string {
+    return this.description;
+  }
+  
+  /**
+   * Get the input schema for the tool
+   */
+  getInputSchema(): any {
+    let schemaObj: Record<string, any> = {};
+    
+    // Add direction parameter if exposed
+    if (this.directionExposed) {
+      schemaObj.direction = z.enum(['front', 'back']).optional().default(this.defaultDirection);
+    }
+    
+    // Add count parameter if exposed
+    if (this.countExposed) {
+      schemaObj.count = z.number().int().min(1).max(this.maxCount).optional().default(this.defaultCount);
+    }
+    
+    // Convert to JSON schema
+    return zodToJsonSchema(z.object(schemaObj));
+  }
+  
+  /**
+   * Execute the tool with given parameters
+   */
+  async execute(params: PeekToolParams): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      // Determine which direction to look from
+      const direction = this.directionExposed
+        ? (params.direction || this.defaultDirection)
+        : this.defaultDirection;
+      
+      // Determine how many items to return, capped by the configured maximum
+      const count = this.countExposed
+        ? Math.min(params.count || this.defaultCount, this.maxCount)
+        : this.defaultCount;
+      
+      const items = await this.queueManager.peek(direction, count);
+      const response = errorHandler.createSuccessResponse(JSON.stringify(items, null, 2));
+      
+      // Tell when the queue has items but none of them can be taken yet
+      const nextAvailableAt = await this.queueManager.getNextAvailableAt();
+      if (nextAvailableAt !== null) {
+        response.content.push({ type: 'text', text: `Next item available at ${nextAvailableAt}` });
+      }
+      
+      return response;
+    } catch (error) {
+      logger.error(`Error executing ${this.name} tool`, error);
+      return errorHandler.handleUnknownError(error);
+    }
+  }
+}
\ No newline at end of file
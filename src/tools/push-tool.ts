@@ -5,11 +5,17 @@
 import { z } from 'zod';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import { PushToolConfig, PushToolParams } from '../config/types.js';
+import { PushOptions } from '../queue/availability.js';
 import { QueueManager } from '../queue/queue-manager.js';
 import { QueueMincerTool } from './index.js';
 import * as errorHandler from '../utils/error-handler.js';
 import * as logger from '../utils/logger.js';
 
+/**
+ * Default upper limit for the number of items added at once
+ */
+const DEFAULT_MAX_BATCH_SIZE = 100;
+
 /**
  * Tool for adding items to the queue
  */
@@ -18,6 +24,9 @@ export class PushTool implements QueueMincerTool {
   private readonly description: string;
   private readonly directionExposed: boolean;
   private readonly defaultDirection: 'front' | 'back';
+  private readonly delayExposed: boolean;
+  private readonly batchExposed: boolean;
+  private readonly maxBatchSize: number;
   
   constructor(
     private config: PushToolConfig,
@@ -27,6 +36,9 @@ export class PushTool implements QueueMincerTool {
     this.description = config.description || 'Add an item to the queue';
     this.directionExposed = config.directionExposed || true;
     this.defaultDirection = config.default || 'back';
+    this.delayExposed = config.delayExposed === true;
+    this.batchExposed = config.batchExposed || false;
+    this.maxBatchSize = config.maxBatchSize || DEFAULT_MAX_BATCH_SIZE;
   }
   
   /**
@@ -47,51 +59,26 @@ export class PushTool implements QueueMincerTool {
    * Get the input schema for the tool
    */
   getInputSchema(): any {
-    // Build item schema based on queue's item template
-    let itemSchema: z.ZodTypeAny;
-    
-    // Get item schema from QueueManager
-    const queueItemSchema = (this.queueManager as any).itemTemplate;
+    // Use the item schema compiled by the queue, shared with item validation
+    let itemSchema = this.queueManager.getItemSchema();
     
-    if (queueItemSchema && typeof queueItemSchema === 'object') {
-      // Create a Zod schema based on the queue item template
-      const schemaShape: Record<string, z.ZodTypeAny> = {};
-      
-      for (const [key, type] of Object.entries(queueItemSchema)) {
-        // Convert the string type to corresponding Zod type
-        switch (String(type).toLowerCase()) {
-          case 'string':
-            schemaShape[key] = z.string();
-            break;
-          case 'number':
-            schemaShape[key] = z.number();
-            break;
-          case 'boolean':
-            schemaShape[key] = z.boolean();
-            break;
-          case 'object':
-            schemaShape[key] = z.record(z.any());
-            break;
-          case 'array':
-            schemaShape[key] = z.array(z.any());
-            break;
-          default:
-            // For unknown types, use any
-            schemaShape[key] = z.any();
-        }
-      }
-      
-      itemSchema = z.object(schemaShape);
-    } else {
+    if (!itemSchema) {
       // Fallback to generic object if no schema is defined
       itemSchema = z.record(z.any());
       logger.info(`No specific item schema found, using generic object schema`);
     }
     
-    // Start with required item parameter using the determined schema
-    let schema = z.object({
-      item: itemSchema
-    });
+    // Start with required item parameter using the determined schema, a
+    // batch of items may be given instead if exposed
+    let schema = this.batchExposed
+      ? z.object({
+        item: itemSchema.optional(),
+        items: z.array(itemSchema).min(1).max(this.maxBatchSize).optional()
+          .describe('Several items to add at once, either all are added or none')
+      })
+      : z.object({
+        item: itemSchema
+      });
     
     // Add direction parameter if exposed
     if (this.directionExposed) {
@@ -100,6 +87,16 @@ export class PushTool implements QueueMincerTool {
       });
     }
     
+    // Add not-before parameters if exposed
+    if (this.delayExposed) {
+      schema = schema.extend({
+        availableAt: z.string().datetime({ offset: true }).optional()
+          .describe('Time from which the item may be handed out'),
+        delay: z.number().nonnegative().optional()
+          .describe('Seconds until the item may be handed out')
+      });
+    }
+    
     // Convert to JSON schema
     return zodToJsonSchema(schema);
   }
@@ -112,32 +109,96 @@ export class PushTool implements QueueMincerTool {
     isError?: boolean;
   }> {
     try {
-      // Check that item is provided
-      if (!params.item || typeof params.item !== 'object') {
-        return errorHandler.createErrorResponse('Item parameter must be an object');
-      }
-      
       // Determine which direction to push to
       const direction = this.directionExposed
         ? (params.direction || this.defaultDirection)
         : this.defaultDirection;
       
-      // Validate the item
-      if (!this.queueManager.validateItem(params.item)) {
-        return errorHandler.createErrorResponse('Item does not match the required schema');
+      // Determine when the items become available
+      const options = this.delayExposed
+        ? { availableAt: params.availableAt, delay: params.delay }
+        : {};
+      
+      if (this.batchExposed && params.items !== undefined) {
+        if (params.item !== undefined) {
+          return errorHandler.createErrorResponse('Only one of item and items parameter may be given');
+        }
+        
+        return await this.executeBatch(params.items, direction, options);
       }
       
-      // Push the item
-      if (direction === 'front') {
-        await this.queueManager.pushFront(params.item);
-      } else {
-        await this.queueManager.pushBack(params.item);
+      // Check that item is provided
+      if (this.batchExposed && params.item === undefined) {
+        return errorHandler.createErrorResponse('Either item or items parameter is required');
+      }
+      
+      if (!params.item || typeof params.item !== 'object') {
+        return errorHandler.createErrorResponse('Item parameter must be an object');
+      }
+      
+      // Validate the item and report every invalid field
+      const validation = this.queueManager.validateItem(params.item);
+      if (!validation.valid) {
+        return errorHandler.createErrorResponse(
+          `Item does not match the required schema:\n${validation.errors.join('\n')}`
+        );
       }
       
-      return errorHandler.createSuccessResponse('Item added to queue');
+      // Push the item with defaults applied
+      const id = direction === 'front'
+        ? await this.queueManager.pushFront(validation.item, options)
+        : await this.queueManager.pushBack(validation.item, options);
+      
+      return errorHandler.createSuccessResponse(`Item added to queue with id ${id}`);
     } catch (error) {
       logger.error(`Error executing ${this.name} tool`, error);
       return errorHandler.handleUnknownError(error);
     }
   }
+  
+  /**
+   * Add a batch of items, none of them if any item is invalid
+   */
+  private async executeBatch(items: any[], direction: 'front' | 'back', options: PushOptions): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    if (!Array.isArray(items) || items.length === 0) {
+      return errorHandler.createErrorResponse('Items parameter must be a non-empty array');
+    }
+    
+    if (items.length > this.maxBatchSize) {
+      return errorHandler.createErrorResponse(`At most ${this.maxBatchSize} items can be added at once`);
+    }
+    
+    // Validate every item and report the invalid fields of all of them
+    const validItems: any[] = [];
+    const errors: string[] = [];
+    items.forEach((item, index) => {
+      if (!item || typeof item !== 'object') {
+        errors.push(`Item ${index}: must be an object`);
+        return;
+      }
+      
+      const validation = this.queueManager.validateItem(item);
+      if (validation.valid) {
+        validItems.push(validation.item);
+      } else {
+        errors.push(...validation.errors.map(error => `Item ${index}: ${error}`));
+      }
+    });
+    
+    if (errors.length > 0) {
+      return errorHandler.createErrorResponse(
+        `Items do not match the required schema, none were added:\n${errors.join('\n')}`
+      );
+    }
+    
+    // Push all items with defaults applied
+    const ids = direction === 'front'
+      ? await this.queueManager.pushFrontBatch(validItems, options)
+      : await this.queueManager.pushBackBatch(validItems, options);
+    
+    return errorHandler.createSuccessResponse(`${ids.length} items added to queue with ids ${ids.join(', ')}`);
+  }
 } 
\ No newline at end of file
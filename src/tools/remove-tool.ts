@@ -0,0 +1,109 @@
+/**
+ * Remove Tool Implementation
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { RemoveToolConfig, RemoveToolParams } from '../config/types.js';
+import { QueueManager } from '../queue/queue-manager.js';
+import { QueueMincerTool } from './index.js';
+import * as errorHandler from '../utils/error-handler.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Tool for withdrawing specific items from the queue
+ */
+export class RemoveTool implements QueueMincerTool {
+  private readonly name: string;
+  private readonly description: string;
+  private readonly filterExposed: boolean;
+  private readonly maxRemove: number | undefined;
+  
+  constructor(
+    private config: RemoveToolConfig,
+    private queueManager: QueueManager
+  ) {
+    this.name = config.alias || 'remove';
+    this.description = config.description || 'Remove queued items by id or by matching field values';
+    this.filterExposed = config.filterExposed !== false;
+    this.maxRemove = config.maxRemove;
+  }
+  
+  /**
+   * Get the name of the tool
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the description of the tool
+   */
+  getDescription(): string {
+    return this.description;
+  }
+  
+  /**
+   * Get the input schema for the tool
+   */
+  getInputSchema(): any {
+    let schema = z.object({
+      id: z.union([z.string(), z.number()]).optional(),
+      dryRun: z.boolean().optional().default(false)
+    });
+    
+    // Add field-equality filter if exposed
+    if (this.filterExposed) {
+      schema = schema.extend({
+        where: z.record(z.any())
+          .refine(where => Object.keys(where).length > 0, 'where must name at least one field')
+          .optional()
+          .describe('Field values all removed items have, at least one field')
+      });
+    }
+    
+    // Convert to JSON schema
+    return zodToJsonSchema(schema);
+  }
+  
+  /**
+   * Execute the tool with given parameters
+   */
+  async execute(params: RemoveToolParams): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      const where = this.filterExposed ? params.where : undefined;
+      
+      if (params.id === undefined && where === undefined) {
+        return errorHandler.createErrorResponse(
+          this.filterExposed ? 'Either id or where parameter is required' : 'id parameter is required'
+        );
+      }
+      
+      if (where !== undefined && (typeof where !== 'object' || where === null || Array.isArray(where))) {
+        return errorHandler.createErrorResponse('where parameter must be an object');
+      }
+      
+      if (where !== undefined && Object.keys(where).length === 0) {
+        return errorHandler.createErrorResponse('where parameter must name at least one field');
+      }
+      
+      const dryRun = params.dryRun === true;
+      const items = await this.queueManager.removeWhere(
+        { id: params.id, where },
+        { dryRun, maxRemove: this.maxRemove }
+      );
+      
+      return errorHandler.createSuccessResponse(JSON.stringify({
+        dryRun,
+        removed: items.length,
+        items
+      }, null, 2));
+    } catch (error) {
+      logger.error(`Error executing ${this.name} tool`, error);
+      return errorHandler.handleUnknownError(error);
+    }
+  }
+}
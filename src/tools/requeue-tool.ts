@@ -0,0 +1,76 @@
+/**
+ * Requeue Tool Implementation
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { RequeueToolConfig, RequeueToolParams } from '../config/types.js';
+import { QueueManager } from '../queue/queue-manager.js';
+import { QueueMincerTool } from './index.js';
+import * as errorHandler from '../utils/error-handler.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Tool for moving dead letters back to the queue for another round of attempts
+ */
+export class RequeueTool implements QueueMincerTool {
+  private readonly name: string;
+  private readonly description: string;
+  
+  constructor(
+    private config: RequeueToolConfig,
+    private queueManager: QueueManager
+  ) {
+    this.name = config.alias || 'requeue';
+    this.description = config.description || 'Move dead letters back to the queue with their attempts reset';
+  }
+  
+  /**
+   * Get the name of the tool
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the description of the tool
+   */
+  getDescription(): string {
+    return this.description;
+  }
+  
+  /**
+   * Get the input schema for the tool
+   */
+  getInputSchema(): any {
+    const schema = z.object({
+      ids: z.array(z.union([z.string(), z.number()])).nonempty().optional(),
+      all: z.boolean().optional().default(false)
+    });
+    
+    // Convert to JSON schema
+    return zodToJsonSchema(schema);
+  }
+  
+  /**
+   * Execute the tool with given parameters
+   */
+  async execute(params: RequeueToolParams): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      // Requeueing everything has to be asked for explicitly
+      if (params.ids === undefined && params.all !== true) {
+        return errorHandler.createErrorResponse('Either ids or all parameter is required');
+      }
+      
+      const count = await this.queueManager.requeueDeadLetters(params.all === true ? undefined : params.ids);
+      
+      return errorHandler.createSuccessResponse(`Requeued ${count} items`);
+    } catch (error) {
+      logger.error(`Error executing ${this.name} tool`, error);
+      return errorHandler.handleUnknownError(error);
+    }
+  }
+}
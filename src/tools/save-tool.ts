@@ -0,0 +1,85 @@
+/**
+ * Save Tool Implementation
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { SaveToolConfig, SaveToolParams } from '../config/types.js';
+import { QueueManager } from '../queue/queue-manager.js';
+import { QueueMincerTool } from './index.js';
+import * as errorHandler from '../utils/error-handler.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Tool for storing the current queue as a new template
+ */
+export class SaveTool implements QueueMincerTool {
+  private readonly name: string;
+  private readonly description: string;
+  private readonly overwriteExposed: boolean;
+  
+  constructor(
+    private config: SaveToolConfig,
+    private queueManager: QueueManager
+  ) {
+    this.name = config.alias || 'save';
+    this.description = config.description || 'Save the current queue as a template';
+    this.overwriteExposed = config.overwriteExposed === true;
+  }
+  
+  /**
+   * Get the name of the tool
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the description of the tool
+   */
+  getDescription(): string {
+    return this.description;
+  }
+  
+  /**
+   * Get the input schema for the tool
+   */
+  getInputSchema(): any {
+    let schema = z.object({
+      templateId: z.string().min(1)
+    });
+    
+    // Add overwrite parameter if exposed
+    if (this.overwriteExposed) {
+      schema = schema.extend({
+        overwrite: z.boolean().optional().default(false)
+      });
+    }
+    
+    // Convert to JSON schema
+    return zodToJsonSchema(schema);
+  }
+  
+  /**
+   * Execute the tool with given parameters
+   */
+  async execute(params: SaveToolParams): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      if (!params.templateId) {
+        return errorHandler.createErrorResponse('templateId parameter is required');
+      }
+      
+      // Existing templates are only replaced if the caller may ask for it
+      const overwrite = this.overwriteExposed && params.overwrite === true;
+      const count = await this.queueManager.saveAsTemplate(params.templateId, overwrite);
+      
+      return errorHandler.createSuccessResponse(`Saved ${count} items as template ${params.templateId}`);
+    } catch (error) {
+      logger.error(`Error executing ${this.name} tool`, error);
+      return errorHandler.handleUnknownError(error);
+    }
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Schedules Tool Implementation
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { SchedulesToolConfig, SchedulesToolParams } from '../config/types.js';
+import { Scheduler } from '../scheduler/scheduler.js';
+import { QueueMincerTool } from './index.js';
+import * as errorHandler from '../utils/error-handler.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Default number of upcoming runs listed per schedule
+ */
+const DEFAULT_COUNT = 3;
+
+/**
+ * Default upper limit for the number of upcoming runs per schedule
+ */
+const DEFAULT_MAX_COUNT = 20;
+
+/**
+ * Tool for listing the upcoming runs of the configured schedules
+ */
+export class SchedulesTool implements QueueMincerTool {
+  private readonly name: string;
+  private readonly description: string;
+  private readonly defaultCount: number;
+  private readonly maxCount: number;
+  private readonly queueNames?: string[];
+  
+  constructor(
+    private config: SchedulesToolConfig,
+    private scheduler: Scheduler
+  ) {
+    this.name = config.alias || 'schedules';
+    this.description = config.description || 'List the scheduled runs that add items to the queue';
+    this.maxCount = config.maxCount || DEFAULT_MAX_COUNT;
+    this.defaultCount = Math.min(config.defaultCount || DEFAULT_COUNT, this.maxCount);
+    
+    // Without a queue binding the schedules of all queues are listed
+    this.queueNames = config.queue === undefined ? undefined : [config.queue].flat();
+  }
+  
+  /**
+   * Get the name of the tool
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the description of the tool
+   */
+  getDescription(): string {
+    return this.description;
+  }
+  
+  /**
+   * Get the input schema for the tool
+   */
+  getInputSchema(): any {
+    const schema = z.object({
+      count: z.number().int().min(1).max(this.maxCount).optional().default(this.defaultCount)
+    });
+    
+    // Convert to JSON schema
+    return zodToJsonSchema(schema);
+  }
+  
+  /**
+   * Execute the tool with given parameters
+   */
+  async execute(params: SchedulesToolParams): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      const count = Math.min(params.count || this.defaultCount, this.maxCount);
+      
+      const schedules = this.scheduler.getUpcoming(count)
+        .filter(schedule => !this.queueNames || this.queueNames.includes(schedule.queue));
+      
+      return errorHandler.createSuccessResponse(JSON.stringify(schedules, null, 2));
+    } catch (error) {
+      logger.error(`Error executing ${this.name} tool`, error);
+      return errorHandler.handleUnknownError(error);
+    }
+  }
+}
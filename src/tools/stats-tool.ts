@@ -0,0 +1,87 @@
+/**
+ * Stats Tool Implementation
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { StatsToolConfig } from '../config/types.js';
+import { QueueManager } from '../queue/queue-manager.js';
+import { QueueMincerResource, QueueMincerTool } from './index.js';
+import * as errorHandler from '../utils/error-handler.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Tool for reporting the size of the queue and how fast items move through it
+ */
+export class StatsTool implements QueueMincerTool {
+  private readonly name: string;
+  private readonly description: string;
+  
+  constructor(
+    private config: StatsToolConfig,
+    private queueManager: QueueManager
+  ) {
+    this.name = config.alias || 'stats';
+    this.description = config.description || 'Report how many items the queue holds, how they break down and how fast they move';
+  }
+  
+  /**
+   * Get the name of the tool
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the description of the tool
+   */
+  getDescription(): string {
+    return this.description;
+  }
+  
+  /**
+   * Get the input schema for the tool
+   */
+  getInputSchema(): any {
+    const schema = z.object({});
+    
+    // Convert to JSON schema
+    return zodToJsonSchema(schema);
+  }
+  
+  /**
+   * Get the resource that offers the same statistics to read
+   */
+  getResource(): QueueMincerResource | null {
+    if (this.config.resourceExposed === false) {
+      return null;
+    }
+    
+    const queueName = [this.config.queue].flat()[0] || 'default';
+    
+    return {
+      uri: `queue-mincer://queues/${encodeURIComponent(queueName)}/stats`,
+      name: `${queueName} queue statistics`,
+      description: this.description,
+      mimeType: 'application/json',
+      read: async () => JSON.stringify(await this.queueManager.getStats(), null, 2)
+    };
+  }
+  
+  /**
+   * Execute the tool with given parameters
+   */
+  async execute(): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      const stats = await this.queueManager.getStats();
+      
+      return errorHandler.createSuccessResponse(JSON.stringify(stats, null, 2));
+    } catch (error) {
+      logger.error(`Error executing ${this.name} tool`, error);
+      return errorHandler.handleUnknownError(error);
+    }
+  }
+}
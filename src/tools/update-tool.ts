@@ -0,0 +1,84 @@
+/**
+ * Update Tool Implementation
+ */
+
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { UpdateToolConfig, UpdateToolParams } from '../config/types.js';
+import { QueueManager } from '../queue/queue-manager.js';
+import { QueueMincerTool } from './index.js';
+import * as errorHandler from '../utils/error-handler.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Tool for modifying items that are already in the queue
+ */
+export class UpdateTool implements QueueMincerTool {
+  private readonly name: string;
+  private readonly description: string;
+  
+  constructor(
+    private config: UpdateToolConfig,
+    private queueManager: QueueManager
+  ) {
+    this.name = config.alias || 'update';
+    this.description = config.description
+      || 'Update a queued item by id. Fields in patch replace existing values, null removes a field';
+  }
+  
+  /**
+   * Get the name of the tool
+   */
+  getName(): string {
+    return this.name;
+  }
+  
+  /**
+   * Get the description of the tool
+   */
+  getDescription(): string {
+    return this.description;
+  }
+  
+  /**
+   * Get the input schema for the tool
+   */
+  getInputSchema(): any {
+    const schema = z.object({
+      id: z.union([z.string(), z.number()]),
+      patch: z.record(z.any())
+    });
+    
+    // Convert to JSON schema
+    return zodToJsonSchema(schema);
+  }
+  
+  /**
+   * Execute the tool with given parameters
+   */
+  async execute(params: UpdateToolParams): Promise<{
+    content: Array<{ type: string; text: string }>;
+    isError?: boolean;
+  }> {
+    try {
+      if (params.id === undefined || params.id === null) {
+        return errorHandler.createErrorResponse('id parameter is required');
+      }
+      
+      if (!params.patch || typeof params.patch !== 'object' || Array.isArray(params.patch)) {
+        return errorHandler.createErrorResponse('patch parameter must be an object');
+      }
+      
+      const item = await this.queueManager.updateItem(params.id, params.patch);
+      
+      if (item === null) {
+        return errorHandler.createErrorResponse(`No queued item with id ${params.id}`);
+      }
+      
+      return errorHandler.createSuccessResponse(JSON.stringify(item, null, 2));
+    } catch (error) {
+      logger.error(`Error executing ${this.name} tool`, error);
+      return errorHandler.handleUnknownError(error);
+    }
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * HTTP Transport - Streamable HTTP and legacy SSE endpoints for MCP clients
+ */
+
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { ServerConfig } from '../config/types.js';
+import { ProfileRequest } from '../profiles/profile-resolver.js';
+import * as logger from '../utils/logger.js';
+
+/**
+ * Default HTTP host
+ */
+const DEFAULT_HOST = '127.0.0.1';
+
+/**
+ * Default HTTP port
+ */
+const DEFAULT_PORT = 3000;
+
+/**
+ * Default path of the Streamable HTTP endpoint
+ */
+const DEFAULT_PATH = '/mcp';
+
+/**
+ * Default size limit of a request body in bytes
+ */
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * Path of the legacy SSE stream endpoint
+ */
+const SSE_PATH = '/sse';
+
+/**
+ * Path of the legacy SSE message endpoint
+ */
+const MESSAGES_PATH = '/messages';
+
+/**
+ * Factory that creates a fresh MCP server for each new client session
+ */
+export type SessionServerFactory = (request: ProfileRequest) => Server;
+
+/**
+ * Prefix of a bearer token in the Authorization header
+ */
+const BEARER_PREFIX = 'Bearer ';
+
+/**
+ * A request body larger than the size limit, answered with 413
+ */
+class BodyTooLargeError extends Error {
+  constructor(limit: number) {
+    super(`Request body exceeds ${limit} bytes`);
+  }
+}
+
+/**
+ * Serves MCP over HTTP, one MCP server instance per client session
+ */
+export class HttpTransport {
+  private httpServer: http.Server | null = null;
+  private streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  private sseTransports = new Map<string, SSEServerTransport>();
+  private readonly host: string;
+  private readonly port: number;
+  private readonly path: string;
+  private readonly maxBodySize: number;
+
+  constructor(
+    config: ServerConfig,
+    private createServer: SessionServerFactory
+  ) {
+    this.host = config.host || DEFAULT_HOST;
+    this.port = config.port || DEFAULT_PORT;
+    this.path = config.path || DEFAULT_PATH;
+    this.maxBodySize = config.maxBodySize || DEFAULT_MAX_BODY_SIZE;
+  }
+
+  /**
+   * Start listening for HTTP requests
+   */
+  async start(): Promise<void> {
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        // The rest of the body is not read, so the connection cannot be reused
+        if (error instanceof BodyTooLargeError) {
+          logger.warn('Rejected request', error.message);
+          res.setHeader('Connection', 'close');
+          return this.sendError(res, 413, error.message);
+        }
+
+        logger.error('Error handling HTTP request', error);
+        if (!res.headersSent) {
+          this.sendError(res, 500, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.port, this.host, () => resolve());
+    });
+
+    logger.info(`QueueMincer MCP server listening on http://${this.host}:${this.port}${this.path}`);
+  }
+
+  /**
+   * Close all sessions and stop listening
+   */
+  async stop(): Promise<void> {
+    const transports = [...this.streamableTransports.values(), ...this.sseTransports.values()];
+    await Promise.all(transports.map(transport => transport.close()));
+
+    if (this.httpServer) {
+      await new Promise<void>(resolve => this.httpServer!.close(() => resolve()));
+      this.httpServer = null;
+    }
+  }
+
+  /**
+   * Route a request to the matching endpoint
+   *
+   * Both session endpoints accept a profile name as an extra path segment,
+   * e.g. `/mcp/worker` or `/sse/worker`.
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', `http://${req.headers.host || this.host}`);
+
+    const streamableProfile = this.matchEndpoint(url.pathname, this.path);
+    if (streamableProfile !== null) {
+      return await this.handleStreamableRequest(req, res, streamableProfile);
+    }
+
+    const sseProfile = this.matchEndpoint(url.pathname, SSE_PATH);
+    if (sseProfile !== null && req.method === 'GET') {
+      return await this.handleSseConnect(req, res, sseProfile);
+    }
+
+    if (url.pathname === MESSAGES_PATH && req.method === 'POST') {
+      return await this.handleSseMessage(url, req, res);
+    }
+
+    this.sendError(res, 404, 'Not found');
+  }
+
+  /**
+   * Handle a request on the Streamable HTTP endpoint
+   */
+  private async handleStreamableRequest(req: IncomingMessage, res: ServerResponse, profile: string | undefined): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const body = req.method === 'POST' ? await this.readJsonBody(req) : undefined;
+
+    // Existing session
+    if (typeof sessionId === 'string') {
+      const transport = this.streamableTransports.get(sessionId);
+      if (!transport) {
+        return this.sendError(res, 404, 'Session not found');
+      }
+      return await transport.handleRequest(req, res, body);
+    }
+
+    // Only an initialize request may open a new session
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      return this.sendError(res, 400, 'No valid session ID provided');
+    }
+
+    const server = this.createSessionServer(req, res, profile);
+    if (!server) {
+      return;
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        this.streamableTransports.set(id, transport);
+        logger.info(`HTTP session opened: ${id}`);
+      }
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.streamableTransports.delete(transport.sessionId);
+        logger.info(`HTTP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Open a legacy SSE stream
+   */
+  private async handleSseConnect(req: IncomingMessage, res: ServerResponse, profile: string | undefined): Promise<void> {
+    const server = this.createSessionServer(req, res, profile);
+    if (!server) {
+      return;
+    }
+
+    const transport = new SSEServerTransport(MESSAGES_PATH, res);
+    this.sseTransports.set(transport.sessionId, transport);
+    logger.info(`SSE session opened: ${transport.sessionId}`);
+
+    res.on('close', () => {
+      this.sseTransports.delete(transport.sessionId);
+      logger.info(`SSE session closed: ${transport.sessionId}`);
+    });
+
+    await server.connect(transport);
+  }
+
+  /**
+   * Deliver a message posted to a legacy SSE session
+   */
+  private async handleSseMessage(url: URL, req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const transport = this.sseTransports.get(url.searchParams.get('sessionId') || '');
+
+    if (!transport) {
+      return this.sendError(res, 404, 'Session not found');
+    }
+
+    const body = await this.readJsonBody(req);
+    if (body === undefined) {
+      return this.sendError(res, 400, 'Invalid JSON body');
+    }
+
+    await transport.handlePostMessage(req, res, body);
+  }
+
+  /**
+   * Match a path against an endpoint, returning the profile segment if any
+   * @returns undefined for the bare endpoint, the profile name for a sub-path, null otherwise
+   */
+  private matchEndpoint(pathname: string, endpoint: string): string | undefined | null {
+    if (pathname === endpoint) {
+      return undefined;
+    }
+
+    const rest = pathname.startsWith(`${endpoint}/`) ? pathname.slice(endpoint.length + 1) : '';
+    return rest && !rest.includes('/') ? decodeURIComponent(rest) : null;
+  }
+
+  /**
+   * Create the MCP server of a new session, answering 403 if access is denied
+   */
+  private createSessionServer(req: IncomingMessage, res: ServerResponse, profile: string | undefined): Server | null {
+    const authorization = req.headers.authorization;
+    const token = authorization?.startsWith(BEARER_PREFIX)
+      ? authorization.slice(BEARER_PREFIX.length).trim()
+      : undefined;
+
+    try {
+      return this.createServer({ profile, token });
+    } catch (error) {
+      logger.warn('Rejected session', error instanceof Error ? error.message : error);
+      this.sendError(res, 403, error instanceof Error ? error.message : 'Access denied');
+      return null;
+    }
+  }
+
+  /**
+   * Read and parse a JSON request body
+   * @returns The parsed body, or undefined if it is empty or not valid JSON
+   * @throws BodyTooLargeError if the body exceeds the size limit
+   */
+  private readJsonBody(req: IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      if (Number(req.headers['content-length']) > this.maxBodySize) {
+        return reject(new BodyTooLargeError(this.maxBodySize));
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size <= this.maxBodySize) {
+          chunks.push(chunk);
+          return;
+        }
+
+        // Discard the rest of the body
+        req.off('data', onData);
+        req.off('end', onEnd);
+        req.resume();
+        reject(new BodyTooLargeError(this.maxBodySize));
+      };
+
+      const onEnd = () => {
+        const text = Buffer.concat(chunks).toString('utf-8');
+
+        try {
+          resolve(text ? JSON.parse(text) : undefined);
+        } catch {
+          resolve(undefined);
+        }
+      };
+
+      req.on('data', onData);
+      req.on('end', onEnd);
+      req.on('error', reject);
+    });
+  }
+
+  /**
+   * Send a JSON-RPC error response
+   */
+  private sendError(res: ServerResponse, status: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      jsonrpc: '2.0',
+      error: { code: -32000, message },
+      id: null
+    }));
+  }
+}
\ No newline at end of file
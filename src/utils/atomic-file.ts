@@ -0,0 +1,33 @@
+/**
+ * Crash-safe file replacement
+ */
+
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+
+/**
+ * Replace a file so readers see either the old or the new content, never a partial write
+ *
+ * The data is written and flushed to a temporary file in the same directory,
+ * which is then renamed over the target.
+ * @param filepath The file to replace
+ * @param data The new content
+ */
+export async function writeFileAtomic(filepath: string, data: string): Promise<void> {
+  const tempPath = `${filepath}.${process.pid}.${randomUUID()}.tmp`;
+
+  try {
+    const file = await fs.open(tempPath, 'w');
+    try {
+      await file.writeFile(data, 'utf-8');
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+
+    await fs.rename(tempPath, filepath);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+}
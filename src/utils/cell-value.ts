@@ -0,0 +1,48 @@
+/**
+ * Typed values of spreadsheet cells
+ */
+
+/**
+ * Text of a cell holding a plain decimal number
+ */
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Text of a cell holding a JSON array or object
+ */
+const JSON_PATTERN = /^\s*[[{]/;
+
+/**
+ * Restore the value a cell was written from
+ *
+ * Numbers and booleans are recognized by their text, and arrays and objects,
+ * which are written as JSON, are parsed back. Anything else, including text
+ * that only looks like JSON, stays a string. Values that are not text are
+ * returned unchanged.
+ * @param value The content of the cell
+ * @returns The typed value
+ */
+export function parseCellValue(value: any): any {
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  if (NUMBER_PATTERN.test(value)) {
+    return parseFloat(value);
+  }
+
+  const lowerValue = value.toLowerCase();
+  if (lowerValue === 'true' || lowerValue === 'false') {
+    return lowerValue === 'true';
+  }
+
+  if (JSON_PATTERN.test(value)) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  }
+
+  return value;
+}
\ No newline at end of file
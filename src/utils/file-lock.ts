@@ -0,0 +1,214 @@
+/**
+ * Advisory lock files shared between processes
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import fs from 'fs/promises';
+import os from 'os';
+import { Mutex } from './mutex.js';
+import * as logger from './logger.js';
+
+/**
+ * Age in milliseconds after which a lock of another host is considered abandoned
+ */
+const DEFAULT_STALE_AGE = 30 * 1000;
+
+/**
+ * Time in milliseconds to wait for a lock before giving up
+ */
+const DEFAULT_TIMEOUT = 10 * 1000;
+
+/**
+ * Delay in milliseconds between two attempts to take a lock
+ */
+const RETRY_DELAY = 20;
+
+/**
+ * Contents of a lock file, identifying its holder
+ */
+interface LockOwner {
+  pid: number;
+  host: string;
+  acquiredAt: string;
+}
+
+export interface FileLockOptions {
+  staleAge?: number;
+  timeout?: number;
+}
+
+/**
+ * Lock held by creating a file next to the protected one
+ *
+ * Tasks of the same process are queued by a mutex, so only one of them waits
+ * for the file. Nested calls from within a running task join the lock that is
+ * already held. A lock of this host is taken over once its holder no longer
+ * runs, however long it was held. The holder refreshes the lock file while it
+ * runs a task, so a lock of another host is taken over once it was not
+ * refreshed for the stale age.
+ */
+export class FileLock {
+  private mutex = new Mutex();
+  private held = new AsyncLocalStorage<boolean>();
+  private readonly staleAge: number;
+  private readonly timeout: number;
+
+  constructor(
+    private readonly lockPath: string,
+    options: FileLockOptions = {}
+  ) {
+    this.staleAge = options.staleAge ?? DEFAULT_STALE_AGE;
+    this.timeout = options.timeout ?? DEFAULT_TIMEOUT;
+  }
+
+  /**
+   * Run a task while holding the lock
+   * @param task The task to run exclusively
+   * @returns The result of the task
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    if (this.held.getStore()) {
+      return task();
+    }
+
+    return this.mutex.runExclusive(async () => {
+      await this.acquire();
+      const heartbeat = setInterval(() => {
+        const now = new Date();
+        fs.utimes(this.lockPath, now, now).catch(() => undefined);
+      }, this.staleAge / 3);
+      heartbeat.unref();
+
+      try {
+        return await this.held.run(true, task);
+      } finally {
+        clearInterval(heartbeat);
+        await this.release();
+      }
+    });
+  }
+
+  /**
+   * Run a task while holding the lock, waiting for the running task even when
+   * started from within it, as work left to run in the background must
+   * @param task The task to run exclusively
+   * @returns The result of the task
+   */
+  runSeparately<T>(task: () => Promise<T>): Promise<T> {
+    return this.held.exit(() => this.runExclusive(task));
+  }
+
+  /**
+   * Create the lock file, waiting for the current holder if there is one
+   */
+  private async acquire(): Promise<void> {
+    const owner: LockOwner = { pid: process.pid, host: os.hostname(), acquiredAt: new Date().toISOString() };
+    const deadline = Date.now() + this.timeout;
+
+    while (true) {
+      try {
+        await fs.writeFile(this.lockPath, JSON.stringify(owner), { encoding: 'utf-8', flag: 'wx' });
+        return;
+      } catch (error: any) {
+        if (error?.code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const staleContent = await this.readStale();
+      if (staleContent !== null) {
+        await this.removeStale(staleContent);
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for lock ${this.lockPath}`);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY));
+    }
+  }
+
+  /**
+   * Remove the lock file
+   */
+  private async release(): Promise<void> {
+    try {
+      await fs.unlink(this.lockPath);
+    } catch (error) {
+      logger.warn(`Failed to release lock ${this.lockPath}`, error);
+    }
+  }
+
+  /**
+   * Read the existing lock if it was left behind by a holder that is gone
+   * @returns The contents of the stale lock file, or null if the lock is valid
+   */
+  private async readStale(): Promise<string | null> {
+    let content: string;
+    let modified: number;
+    try {
+      content = await fs.readFile(this.lockPath, 'utf-8');
+      modified = (await fs.stat(this.lockPath)).mtimeMs;
+    } catch {
+      // Released in the meantime, the next attempt may succeed
+      return null;
+    }
+
+    let owner: LockOwner | null;
+    try {
+      owner = JSON.parse(content);
+    } catch {
+      // The holder may still be writing its lock file
+      owner = null;
+    }
+
+    // A holder on this host keeps the lock for as long as it runs
+    if (owner?.host === os.hostname()) {
+      return this.isRunning(owner.pid) ? null : content;
+    }
+
+    return Date.now() - modified > this.staleAge ? content : null;
+  }
+
+  /**
+   * Remove an abandoned lock file
+   *
+   * The lock is first moved to a name of its own. If another process replaced
+   * the stale lock in the meantime, its fresh lock is put back.
+   */
+  private async removeStale(staleContent: string): Promise<void> {
+    const stalePath = `${this.lockPath}.${process.pid}.stale`;
+    try {
+      await fs.rename(this.lockPath, stalePath);
+    } catch {
+      // Another process got there first
+      return;
+    }
+
+    try {
+      if (await fs.readFile(stalePath, 'utf-8') === staleContent) {
+        logger.warn(`Removed stale lock ${this.lockPath}`);
+      } else {
+        await fs.link(stalePath, this.lockPath);
+      }
+    } catch (error) {
+      logger.warn(`Failed to restore lock ${this.lockPath}`, error);
+    } finally {
+      await fs.unlink(stalePath).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Check whether a process with the given id is running
+   */
+  private isRunning(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error: any) {
+      // EPERM means the process exists but belongs to someone else
+      return error?.code === 'EPERM';
+    }
+  }
+}
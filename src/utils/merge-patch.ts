@@ -0,0 +1,37 @@
+/**
+ * JSON Merge Patch (RFC 7386)
+ */
+
+/**
+ * Apply a merge patch to a value without modifying it
+ *
+ * Objects are merged recursively, a null value removes the key and any other
+ * value, including arrays, replaces the previous one.
+ * @param target The value to patch
+ * @param patch The merge patch
+ * @returns The patched value
+ */
+export function applyMergePatch(target: any, patch: any): any {
+  if (!isPlainObject(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, any> = isPlainObject(target) ? { ...target } : {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check whether a value is a plain object rather than an array or null
+ */
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
\ No newline at end of file
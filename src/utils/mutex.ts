@@ -0,0 +1,21 @@
+/**
+ * Simple promise-based mutual exclusion
+ */
+
+/**
+ * Runs asynchronous tasks one after another in call order
+ */
+export class Mutex {
+  private tail: Promise<void> = Promise.resolve();
+
+  /**
+   * Run a task once all previously scheduled tasks have settled
+   * @param task The task to run exclusively
+   * @returns The result of the task
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(task);
+    this.tail = result.then(() => undefined, () => undefined);
+    return result;
+  }
+}
\ No newline at end of file
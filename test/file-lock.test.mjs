@@ -0,0 +1,95 @@
+/**
+ * File lock test - Locks held longer than the stale age and locks of other hosts
+ *
+ * Runs against the compiled sources in dist, `npm test` builds them first.
+ */
+
+import assert from 'node:assert/strict';
+import { fork } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import test from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { FileLock } from '../dist/utils/file-lock.js';
+import { LogLevel, setLogLevel } from '../dist/utils/logger.js';
+
+/**
+ * Stale age in milliseconds, far shorter than the task holding the lock
+ */
+const STALE_AGE = 100;
+
+/**
+ * How long the other process holds the lock in milliseconds
+ */
+const HOLD_TIME = 1000;
+
+// Taking over a stale lock is reported as a warning
+setLogLevel(LogLevel.ERROR);
+
+// Forked processes run as plain scripts, not as part of the test run
+const { NODE_TEST_CONTEXT, ...childEnv } = process.env;
+
+/**
+ * Start a process that holds the lock, resolving once it has taken it
+ * @returns A promise for the exit of the process, wrapped so it is not awaited here
+ */
+function startHolder(lockPath, markerPath) {
+  return new Promise((resolve, reject) => {
+    const child = fork(fileURLToPath(import.meta.url), ['holder', lockPath, markerPath], { env: childEnv, silent: true });
+    const exited = new Promise(resolveExit => child.on('exit', resolveExit));
+
+    child.on('message', () => resolve({ exited }));
+    child.on('error', reject);
+    child.on('exit', code => reject(new Error(`Holder exited with code ${code} before taking the lock`)));
+  });
+}
+
+if (process.argv[2] === 'holder') {
+  const [, , , lockPath, markerPath] = process.argv;
+  const lock = new FileLock(lockPath, { staleAge: STALE_AGE });
+
+  await lock.runExclusive(async () => {
+    process.send('locked');
+    await new Promise(resolve => setTimeout(resolve, HOLD_TIME));
+    await fs.writeFile(markerPath, 'released');
+  });
+  process.disconnect();
+} else {
+  test('a lock held by a running process of this host is not taken over', { timeout: 30 * 1000 }, async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'queuemincer-lock-'));
+    const lockPath = path.join(dir, 'queue.json.lock');
+    const markerPath = path.join(dir, 'released');
+
+    try {
+      const { exited: holderExited } = await startHolder(lockPath, markerPath);
+
+      const lock = new FileLock(lockPath, { staleAge: STALE_AGE, timeout: 10 * 1000 });
+      const marker = await lock.runExclusive(() => fs.readFile(markerPath, 'utf-8').catch(() => null));
+      await holderExited;
+
+      assert.equal(marker, 'released', 'the lock was taken while its holder still ran');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('a lock of another host is taken over once it is no longer refreshed', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'queuemincer-lock-'));
+    const lockPath = path.join(dir, 'queue.json.lock');
+    const owner = { pid: process.pid, host: `not-${os.hostname()}`, acquiredAt: new Date().toISOString() };
+
+    try {
+      await fs.writeFile(lockPath, JSON.stringify(owner));
+      const fresh = new FileLock(lockPath, { staleAge: 60 * 1000, timeout: 200 });
+      await assert.rejects(fresh.runExclusive(async () => undefined), /Timed out/);
+
+      const past = new Date(Date.now() - 2 * STALE_AGE);
+      await fs.utimes(lockPath, past, past);
+      const stale = new FileLock(lockPath, { staleAge: STALE_AGE, timeout: 1000 });
+      assert.equal(await stale.runExclusive(async () => 'taken'), 'taken');
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+}
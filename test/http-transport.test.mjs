@@ -0,0 +1,77 @@
+/**
+ * HTTP transport test - Request bodies over the size limit
+ *
+ * Runs against the compiled sources in dist, `npm test` builds them first.
+ */
+
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import net from 'node:net';
+import test from 'node:test';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { HttpTransport } from '../dist/transports/http-transport.js';
+import { LogLevel, setLogLevel } from '../dist/utils/logger.js';
+
+/**
+ * Size limit of a request body in bytes
+ */
+const MAX_BODY_SIZE = 1024;
+
+// Refused requests are reported as warnings
+setLogLevel(LogLevel.ERROR);
+
+/**
+ * Find a port nothing listens on
+ */
+function findFreePort() {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address();
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+/**
+ * Post a body to the transport, in chunks without a declared length if asked to
+ * @returns The response status
+ */
+function post(port, body, isChunked) {
+  return new Promise((resolve, reject) => {
+    const headers = { 'Content-Type': 'application/json', Accept: 'application/json, text/event-stream' };
+    const req = http.request({ host: '127.0.0.1', port, path: '/mcp', method: 'POST', headers }, res => {
+      res.resume();
+      resolve(res.statusCode);
+    });
+    req.on('error', reject);
+
+    if (isChunked) {
+      req.write(body.slice(0, body.length / 2));
+      req.end(body.slice(body.length / 2));
+    } else {
+      req.setHeader('Content-Length', Buffer.byteLength(body));
+      req.end(body);
+    }
+  });
+}
+
+test('a request body over the size limit is refused with 413', { timeout: 30 * 1000 }, async () => {
+  const port = await findFreePort();
+  const transport = new HttpTransport(
+    { host: '127.0.0.1', port, maxBodySize: MAX_BODY_SIZE },
+    () => new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} })
+  );
+  await transport.start();
+
+  try {
+    const largeBody = JSON.stringify({ padding: 'x'.repeat(2 * MAX_BODY_SIZE) });
+
+    assert.equal(await post(port, largeBody, false), 413);
+    assert.equal(await post(port, largeBody, true), 413);
+    assert.equal(await post(port, JSON.stringify({}), false), 400);
+  } finally {
+    await transport.stop();
+  }
+});
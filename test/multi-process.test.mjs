@@ -0,0 +1,297 @@
+/**
+ * Multi-process test - Several servers pushing to, taking from and leasing from one stored queue
+ *
+ * Runs against the compiled sources in dist, `npm test` builds them first.
+ */
+
+import assert from 'node:assert/strict';
+import { fork } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import test from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { validateConfig } from '../dist/config/schema.js';
+import { createQueueRegistry } from '../dist/queue/queue-registry.js';
+import { LogLevel, setLogLevel } from '../dist/utils/logger.js';
+
+/**
+ * Number of processes sharing a queue
+ */
+const WORKER_COUNT = 4;
+
+/**
+ * Number of items each process pushes
+ */
+const ITEMS_PER_WORKER = 25;
+
+/**
+ * Loaders that keep a queue in files other processes can share
+ */
+const LOADERS = ['json', 'csv', 'jsonl', 'sqlite'];
+
+/**
+ * Log size in bytes after which the JSON Lines log is compacted, small enough
+ * for processes to compact it under each other
+ */
+const COMPACTION_THRESHOLD = 4096;
+
+/**
+ * Seconds a lease stays valid, long enough for the other process to look at the queue meanwhile
+ */
+const VISIBILITY_TIMEOUT = 2;
+
+/**
+ * Number of items leased by another process
+ */
+const LEASED_COUNT = 10;
+
+// Every process opening a queue would otherwise report it
+setLogLevel(LogLevel.WARN);
+
+// Forked processes run as plain scripts, not as part of the test run
+const { NODE_TEST_CONTEXT, ...childEnv } = process.env;
+
+/**
+ * Queue settings each test adds to the loader, by name
+ */
+const SETUPS = {
+  uuid: { itemId: { strategy: 'uuid' } },
+  counter: { itemId: { strategy: 'counter' }, lifecycle: {} },
+  lease: { visibilityTimeout: VISIBILITY_TIMEOUT },
+  lifecycleLease: { visibilityTimeout: VISIBILITY_TIMEOUT, lifecycle: {} }
+};
+
+/**
+ * Open the default queue of a configuration file in the given directory
+ */
+async function openQueue(loader, baseDir, setup) {
+  const config = validateConfig({
+    queue: { loader, compactionThreshold: COMPACTION_THRESHOLD, ...SETUPS[setup] },
+    tools: {}
+  });
+
+  const registry = createQueueRegistry(config, baseDir);
+  await registry.initialize();
+  return { registry, queue: registry.get(registry.getDefaultName()) };
+}
+
+/**
+ * Push items and take one after each push, then take what is left
+ * @returns The items this process took
+ */
+async function runWorker(loader, baseDir, setup, producer) {
+  const { registry, queue } = await openQueue(loader, baseDir, setup);
+  const takenItems = [];
+
+  for (let seq = 0; seq < ITEMS_PER_WORKER; seq++) {
+    await queue.pushBack({ producer, seq });
+
+    const item = await queue.getFront();
+    if (item !== null) {
+      takenItems.push(item);
+    }
+  }
+
+  let item;
+  while ((item = await queue.getFront()) !== null) {
+    takenItems.push(item);
+  }
+
+  await registry.close();
+  return takenItems;
+}
+
+/**
+ * Lease items, report how many, then acknowledge them once told to
+ * @returns Whether each acknowledgement was accepted
+ */
+async function runLeaser(loader, baseDir, setup) {
+  const { registry, queue } = await openQueue(loader, baseDir, setup);
+  const leases = await queue.leaseFrontBatch(LEASED_COUNT);
+
+  await new Promise(resolve => {
+    process.once('message', resolve);
+    process.send(leases.length);
+  });
+
+  const accepted = [];
+  for (const lease of leases) {
+    accepted.push(await queue.ack(lease.leaseToken));
+  }
+
+  await registry.close();
+  return accepted;
+}
+
+/**
+ * Start a worker process and wait for the items it took
+ */
+function startWorker(loader, baseDir, setup, producer) {
+  return new Promise((resolve, reject) => {
+    const child = fork(fileURLToPath(import.meta.url), ['worker', loader, baseDir, setup, String(producer)], { env: childEnv, silent: true });
+    let takenItems = null;
+    let errorOutput = '';
+
+    child.stderr.on('data', data => {
+      errorOutput += data;
+    });
+    child.on('message', message => {
+      takenItems = message;
+    });
+    child.on('error', reject);
+    child.on('exit', code => {
+      if (code === 0 && takenItems !== null) {
+        resolve(takenItems);
+      } else {
+        reject(new Error(`Worker ${producer} exited with code ${code}\n${errorOutput}`));
+      }
+    });
+  });
+}
+
+/**
+ * Start a process that leases items, resolving once it has leased them
+ * @returns The number of leased items, and a function that has the process
+ * acknowledge them and resolves whether each acknowledgement was accepted
+ */
+function startLeaser(loader, baseDir, setup) {
+  return new Promise((resolve, reject) => {
+    const child = fork(fileURLToPath(import.meta.url), ['leaser', loader, baseDir, setup], { env: childEnv, silent: true });
+    let accepted = null;
+    let errorOutput = '';
+
+    const exited = new Promise((resolveExit, rejectExit) => {
+      child.on('exit', code => {
+        if (code === 0 && accepted !== null) {
+          resolveExit(accepted);
+        } else {
+          const error = new Error(`Leaser exited with code ${code}\n${errorOutput}`);
+          reject(error);
+          rejectExit(error);
+        }
+      });
+    });
+    // Only awaited once the items are acknowledged
+    exited.catch(() => undefined);
+
+    child.stderr.on('data', data => {
+      errorOutput += data;
+    });
+    child.once('message', leasedCount => {
+      child.once('message', message => {
+        accepted = message;
+      });
+      resolve({
+        leasedCount,
+        acknowledge: () => {
+          child.send('ack');
+          return exited;
+        }
+      });
+    });
+    child.on('error', reject);
+  });
+}
+
+/**
+ * Take every item that is ready
+ */
+async function drain(queue) {
+  const takenItems = [];
+  let item;
+  while ((item = await queue.getFront()) !== null) {
+    takenItems.push(item);
+  }
+  return takenItems;
+}
+
+/**
+ * Have several processes push and take items, then take what is left
+ * @returns Every item that was taken
+ */
+async function shareQueue(loader, setup) {
+  const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), `queuemincer-${loader}-`));
+
+  try {
+    // Create the queue once so the workers start from the same empty source
+    const { registry } = await openQueue(loader, baseDir, setup);
+    await registry.close();
+
+    const workers = [];
+    for (let producer = 0; producer < WORKER_COUNT; producer++) {
+      workers.push(startWorker(loader, baseDir, setup, producer));
+    }
+    const takenItems = (await Promise.all(workers)).flat();
+
+    // Items pushed after a worker finished draining are still queued
+    const { registry: checkRegistry, queue } = await openQueue(loader, baseDir, setup);
+    takenItems.push(...await drain(queue));
+    await checkRegistry.close();
+
+    return takenItems;
+  } finally {
+    await fs.rm(baseDir, { recursive: true, force: true });
+  }
+}
+
+if (process.argv[2] === 'worker') {
+  const [, , , loader, baseDir, setup, producer] = process.argv;
+  const takenItems = await runWorker(loader, baseDir, setup, Number(producer));
+  process.send(takenItems, () => process.exit(0));
+} else if (process.argv[2] === 'leaser') {
+  const [, , , loader, baseDir, setup] = process.argv;
+  const accepted = await runLeaser(loader, baseDir, setup);
+  process.send(accepted, () => process.exit(0));
+} else {
+  for (const loader of LOADERS) {
+    test(`${loader} loader hands out every item once across processes`, { timeout: 120 * 1000 }, async () => {
+      const takenItems = await shareQueue(loader, 'uuid');
+
+      const keys = takenItems.map(item => `${item.producer}:${item.seq}`);
+      const expectedKeys = [];
+      for (let producer = 0; producer < WORKER_COUNT; producer++) {
+        for (let seq = 0; seq < ITEMS_PER_WORKER; seq++) {
+          expectedKeys.push(`${producer}:${seq}`);
+        }
+      }
+
+      assert.equal(new Set(keys).size, keys.length, 'an item was handed out more than once');
+      assert.deepEqual([...keys].sort(), expectedKeys.sort(), 'an item was lost');
+    });
+
+    // Items stay stored with a status, so the counter never goes back to an id in use
+    test(`${loader} loader counts item ids on across processes`, { timeout: 120 * 1000 }, async () => {
+      const takenItems = await shareQueue(loader, 'counter');
+
+      const ids = takenItems.map(item => item.id).sort((a, b) => a - b);
+      const expectedIds = Array.from({ length: WORKER_COUNT * ITEMS_PER_WORKER }, (_, index) => index + 1);
+
+      assert.deepEqual(ids, expectedIds, 'an id was issued more than once');
+    });
+
+    for (const setup of ['lease', 'lifecycleLease']) {
+      test(`${loader} loader requeues the expired leases of another process (${setup})`, { timeout: 60 * 1000 }, async () => {
+        const baseDir = await fs.mkdtemp(path.join(os.tmpdir(), `queuemincer-${loader}-`));
+
+        try {
+          const { registry, queue } = await openQueue(loader, baseDir, setup);
+          await queue.pushBackBatch(Array.from({ length: LEASED_COUNT }, (_, seq) => ({ seq })));
+
+          const leaser = await startLeaser(loader, baseDir, setup);
+          assert.equal(leaser.leasedCount, LEASED_COUNT);
+          assert.equal(await queue.getFront(), null, 'a leased item was handed out again');
+
+          await new Promise(resolve => setTimeout(resolve, VISIBILITY_TIMEOUT * 1000 + 200));
+          const requeuedItems = await drain(queue);
+          await registry.close();
+
+          assert.deepEqual(requeuedItems.map(item => item.seq), Array.from({ length: LEASED_COUNT }, (_, seq) => seq));
+          assert.deepEqual(await leaser.acknowledge(), new Array(LEASED_COUNT).fill(false), 'an expired lease was acknowledged');
+        } finally {
+          await fs.rm(baseDir, { recursive: true, force: true });
+        }
+      });
+    }
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Profile test - Which tools a client gets over stdio and with or without a token
+ *
+ * Runs against the compiled sources in dist, `npm test` builds them first.
+ */
+
+import assert from 'node:assert/strict';
+import { spawn } from 'node:child_process';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { createInterface } from 'node:readline';
+import test from 'node:test';
+import { fileURLToPath } from 'node:url';
+import { validateConfig } from '../dist/config/schema.js';
+import { ProfileResolver, getProfileConfigs } from '../dist/profiles/profile-resolver.js';
+
+/**
+ * Configuration with an open and a protected profile next to the default one
+ */
+const CONFIG = {
+  queue: { loader: 'json' },
+  tools: {},
+  profiles: {
+    producer: { tools: { push: { alias: 'writeTodo' } } },
+    worker: {
+      tools: { get: { alias: 'readTodo' } },
+      tokens: ['worker-secret']
+    }
+  }
+};
+
+/**
+ * Entry point of the server
+ */
+const SERVER_PATH = fileURLToPath(new URL('../dist/index.js', import.meta.url));
+
+/**
+ * Start the server in stdio mode and list the tools it offers
+ * @returns The tool names
+ */
+async function listStdioTools(configPath, args) {
+  const child = spawn(process.execPath, [SERVER_PATH, configPath, ...args], { stdio: ['pipe', 'pipe', 'ignore'] });
+  const exited = new Promise(resolve => child.on('exit', resolve));
+
+  try {
+    const send = message => child.stdin.write(`${JSON.stringify({ jsonrpc: '2.0', ...message })}\n`);
+    send({
+      id: 1,
+      method: 'initialize',
+      params: { protocolVersion: '2024-11-05', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } }
+    });
+    send({ method: 'notifications/initialized' });
+    send({ id: 2, method: 'tools/list' });
+
+    // Log lines share stdout with the protocol messages
+    for await (const line of createInterface({ input: child.stdout })) {
+      if (!line.startsWith('{')) {
+        continue;
+      }
+
+      const message = JSON.parse(line);
+      if (message.id === 2) {
+        return message.result.tools.map(tool => tool.name);
+      }
+    }
+
+    throw new Error(`Server exited with code ${await exited} before listing its tools`);
+  } finally {
+    child.stdin.end();
+    await exited;
+  }
+}
+
+test('stdio serves a profile protected by tokens when it is chosen on the command line', { timeout: 30 * 1000 }, async () => {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'queuemincer-profiles-'));
+  const configPath = path.join(dir, 'config.json');
+
+  try {
+    await fs.writeFile(configPath, JSON.stringify(CONFIG));
+    const tools = await listStdioTools(configPath, ['--profile', 'worker']);
+
+    assert.ok(tools.includes('readTodo'), `readTodo is missing from ${tools.join(', ')}`);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('a client without a token is refused once a profile is protected', () => {
+  const resolver = new ProfileResolver(getProfileConfigs(validateConfig(CONFIG)));
+
+  assert.throws(() => resolver.resolve({}), /access token is required/);
+  assert.throws(() => resolver.resolve({ profile: 'producer' }), /access token is required/);
+  assert.throws(() => resolver.resolve({ profile: 'worker' }), /access token is required/);
+  assert.equal(resolver.resolve({ token: 'worker-secret' }), 'worker');
+  assert.equal(resolver.resolve({ profile: 'worker', trusted: true }), 'worker');
+  assert.throws(() => resolver.resolve({ profile: 'unknown', trusted: true }), /Unknown profile/);
+});
+
+test('a client without a token gets the default profile while no profile is protected', () => {
+  const { worker, ...profiles } = CONFIG.profiles;
+  const resolver = new ProfileResolver(getProfileConfigs(validateConfig({ ...CONFIG, profiles })));
+
+  assert.equal(resolver.resolve({}), 'default');
+  assert.equal(resolver.resolve({ profile: 'producer' }), 'producer');
+});